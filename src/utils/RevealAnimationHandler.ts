@@ -8,14 +8,76 @@
 	### TEXT REVEAL TYPES:
 	data-reveal="perspective" - Animates text with a 3D perspective effect
 	data-reveal="slide" - Animates text line by line with a reveal effect
+	Custom types can be added with registerRevealType(name, definition)
+
+	### ELEMENT REVEAL TYPES (no text splitting, for images, video, SVG and cards):
+	data-reveal="fade-up" - Fades the element in while it moves up (the default for media elements)
+	data-reveal="scale-in" - Fades the element in while it scales up
+	data-reveal="clip-up" - Wipes the element in with a clip-path, from the bottom up
+	Images inside are decoded before the reveal plays
 
 	### Text Reveal Properties
 	data-reveal-fade - Add opacity animation (boolean attribute)
-	data-reveal-blur - Add blur and opacity animation (boolean attribute)
+	data-reveal-blur - Add blur and opacity animation (boolean attribute, or the blur radius in px: data-reveal-blur="12")
 	data-reveal-duration="0.75" - Duration of animation in seconds (default: 0.75)
 	data-reveal-delay="0.1" - Delay before animation starts in seconds (default: 0.1)
 	data-reveal-stagger="0.1" - Stagger time between animated elements (default: varies by animation type)
 	data-reveal-keep-will-change - If present, keeps will-change: transform after animation (default: false)
+	data-reveal-split="lines" - Unit to stagger: "lines", "words" or "chars" (default: lines)
+	data-reveal-repeat - Replay the animation every time the element re-enters the viewport (boolean attribute)
+	data-reveal-exit="none" - With data-reveal-repeat, what happens on leaving: "reverse", "reset" or "none" (default: none)
+	data-reveal-scrub - Tie line progress to the element's scroll position instead of time (boolean attribute)
+	data-reveal-scrub-start="100%" - Element top position in the viewport where scrubbing starts (default: 100%)
+	data-reveal-scrub-end="50%" - Element top position in the viewport where the reveal is complete (default: 50%)
+	data-reveal-relayout="restore" - After a width change: "restore" the original text or "split" it into lines again (default: split for repeat/scrub, else restore)
+	data-reveal-from="bottom" - Side the lines come in from: "bottom", "top", "left" or "right", mirrored for right-to-left text (default: bottom)
+	data-reveal-cascade="50" - Slide: starting offset of the last line in percent, "none" to turn it off (default: 50)
+	data-reveal-line-duration-ratio="1.5" - Slide: line layer duration relative to data-reveal-duration (default: 1.5)
+	data-reveal-perspective="1000px" - Perspective of the 3D container (default: 1000px)
+	data-reveal-rotate="75" - Starting rotation of perspective lines in degrees (default: 75)
+	data-reveal-depth="2rem" - Starting depth (translateZ) of perspective lines (default: 2rem)
+	data-reveal-origin="50% 0" - Transform origin of perspective lines (default: the edge they come from)
+	data-reveal-ease="quart.out" - Ease of the span layer: any GSAP ease string or cubic-bezier(x1, y1, x2, y2) (default: quart.out)
+	data-reveal-line-ease="quad.out" - Ease of the line layer (default: quad.out for perspective, quart.out for slide)
+	data-reveal-targets="p, li" - On a container: nested text elements animated together as one sequence (default: h1-h6, p, li)
+	data-reveal-group="cards" - Stagger the members of a group that enter the viewport together as one sequence
+	data-reveal-group-stagger="0.1" - Time between the members of a group in seconds (default: 0.1)
+	data-reveal-group-order="dom" - Order a group is staggered in: "dom" or "visual" (row by row) (default: dom)
+	data-reveal-threshold="0.1" - Portion of the element that must be visible to trigger, 0-1 or a percentage (default: 0.1)
+	data-reveal-root-margin="0px" - Margin around the root used to grow or shrink the trigger area (default: 0px)
+	data-reveal-root=".scroller" - Scroll container to observe against, matched on the closest ancestor (default: viewport)
+	data-reveal-reduced="fade" - What to do when the user prefers reduced motion: "none" (animate anyway), "fade" or "instant" (default: fade)
+	Boolean attributes accept "false" to opt out of a site-wide default, e.g. data-reveal-fade="false"
+
+	### Site-wide Defaults
+	configureReveal({ duration: 1, fade: true, nestedSelector: 'h2, p' }) - Defaults for every option an element doesn't set
+	<script type="application/json" id="reveal-config">{ "duration": 1 }</script> - Same defaults, read on every init
+	Precedence: element attributes, then configureReveal, then the config script, then the built-in defaults
+
+	### Events (bubbling CustomEvents, detail.options holds the resolved AnimationOptions)
+	reveal:prepare - Text has been split, detail.lineCount / detail.lines
+	reveal:start - The animation starts playing
+	reveal:line - A line finished animating, detail.index / detail.line
+	reveal:complete - The whole animation finished
+
+	### Programmatic API
+	initTextAnimations() - Observe every [data-reveal] element on the page
+	reveal(element, options) - Animate an element immediately, skipping the observer
+	reset(element) - Restore an element to its hidden, unrevealed state
+	refresh(root) - Pick up [data-reveal] elements added under root since init
+	revealAll(root) - Reveal every [data-reveal] element under root, resolves when all have finished
+	whenRevealed(element) - Resolves when the element's reveal has finished
+	registerRevealType(name, definition) - Add a custom data-reveal type built on the line splitter
+	setReducedMotionDefault(mode) - Page-wide fallback used with prefers-reduced-motion
+	configureReveal(config) - Site-wide defaults for any option, the nested selector and observer settings
+	watchMutations(enabled) - Opt in to picking up added/removed [data-reveal] elements automatically
+	destroy() - Kill running timelines, disconnect the observers and release all tracked elements
+
+	### Lifecycle Adapters
+	Nothing runs on import. Connect the handler to your page lifecycle once:
+	connectLifecycle(astroLifecycle) - Astro view transitions (astro:page-load / astro:before-preparation)
+	connectLifecycle(domLifecycle) - Plain pages (DOMContentLoaded / popstate)
+	connectLifecycle(manual.adapter) - With manual = createManualLifecycle(), call manual.init() / manual.teardown() yourself
 
 	 */
 
@@ -26,23 +88,233 @@ const DEFAULT_ANIMATION_VALUES = {
 	DURATION: 0.75,
 	DELAY: 0,
 	STAGGER: 0.1,
+	STAGGER_WORDS: 0.05,
+	STAGGER_CHARS: 0.02,
+	REDUCED_MOTION: 'fade' as ReducedMotionMode,
+	SCRUB_START: 1,
+	SCRUB_END: 0.5,
+	CASCADE: 50,
+	LINE_DURATION_RATIO: 1.5,
+	GROUP_STAGGER: 0.1,
+	// Longest wait for images to decode before an element reveal plays anyway
+	DECODE_TIMEOUT: 3000,
+};
+
+// Default look of the perspective and blur effects
+const DEFAULT_EFFECT_VALUES = {
+	PERSPECTIVE: '1000px',
+	ROTATE: 75,
+	DEPTH: '2rem',
+	BLUR: 25,
+	// Starting offset (px) of fade-up and scale of scale-in
+	OFFSET: 40,
+	SCALE: 0.9,
+};
+
+// Default eases of the span (primary) layer and of the line layer
+const DEFAULT_EASES = {
+	SPAN: 'quart.out',
+	SLIDE_LINE: 'quart.out',
+	PERSPECTIVE_LINE: 'quad.out',
+};
+
+// Default intersection observer settings
+const DEFAULT_OBSERVER_VALUES = {
+	THRESHOLD: 0.1,
+	ROOT_MARGIN: '0px',
 };
 
 // Common selectors used throughout the code
 const SELECTORS = {
 	NESTED_TEXT_ELEMENTS: 'h1, h2, h3, h4, h5, h6, p, li',
+	LIST_CONTAINERS: 'ul, ol, menu, dl',
+	LIST_ITEMS:
+		':scope > li, :scope > dt, :scope > dd, :scope > div > dt, :scope > div > dd',
 	SPLIT_WORD: '.split-word',
+	SPLIT_UNIT: '.reveal-unit',
+	LINE: '.reveal-line',
+	MEDIA: 'img, picture, video, audio, canvas, svg, iframe, object, embed',
 };
 
-interface AnimationOptions {
+/**
+ * Fallback used when the user prefers reduced motion:
+ * "none" keeps the full animation, "fade" only fades the element in,
+ * "instant" shows it right away
+ */
+export type ReducedMotionMode = 'none' | 'fade' | 'instant';
+
+const REDUCED_MOTION_MODES: ReducedMotionMode[] = ['none', 'fade', 'instant'];
+
+/**
+ * Unit that is staggered within the split lines
+ */
+export type SplitMode = 'lines' | 'words' | 'chars';
+
+const SPLIT_MODES: SplitMode[] = ['lines', 'words', 'chars'];
+
+/**
+ * What a repeating reveal does when it leaves the viewport:
+ * "reverse" plays the timeline backwards, "reset" jumps back to the hidden
+ * state and "none" leaves it revealed until it replays on the next entry
+ */
+export type ExitMode = 'reverse' | 'reset' | 'none';
+
+const EXIT_MODES: ExitMode[] = ['reverse', 'reset', 'none'];
+
+/**
+ * Side the text comes in from
+ */
+export type RevealDirection = 'bottom' | 'top' | 'left' | 'right';
+
+const REVEAL_DIRECTIONS: RevealDirection[] = [
+	'bottom',
+	'top',
+	'left',
+	'right',
+];
+
+/**
+ * How a revealed element adapts when its width changes:
+ * "restore" drops the line wrappers and shows the original markup,
+ * "split" splits the text into lines again at the new width
+ */
+export type RelayoutMode = 'restore' | 'split';
+
+const RELAYOUT_MODES: RelayoutMode[] = ['restore', 'split'];
+
+/**
+ * Order in which a reveal group is staggered: "dom" follows the document,
+ * "visual" goes row by row, left to right, by on-screen position
+ */
+export type GroupOrder = 'dom' | 'visual';
+
+const GROUP_ORDERS: GroupOrder[] = ['dom', 'visual'];
+
+export interface AnimationOptions {
 	duration?: number;
 	delay?: number;
 	stagger?: number;
 	fade?: boolean;
 	blur?: boolean;
 	keepWillChange?: boolean;
+	reducedMotion?: ReducedMotionMode;
+	split?: SplitMode;
+	repeat?: boolean;
+	exit?: ExitMode;
+	scrub?: boolean;
+	scrubStart?: number;
+	scrubEnd?: number;
+	relayout?: RelayoutMode;
+	ease?: string | gsap.EaseFunction;
+	lineEase?: string | gsap.EaseFunction;
+	from?: RevealDirection;
+	perspective?: string;
+	rotate?: number;
+	depth?: string;
+	blurAmount?: number;
+	origin?: string;
+	cascade?: number;
+	lineDurationRatio?: number;
+	group?: string;
+	groupStagger?: number;
+	groupOrder?: GroupOrder;
+}
+
+/**
+ * Everything a custom reveal type needs to animate one line
+ */
+export interface RevealLineContext {
+	// Line wrapper, clips the line unless fade or blur is enabled
+	line: HTMLElement;
+	// Span holding the line's content
+	span: HTMLElement;
+	index: number;
+	total: number;
+	timeline: gsap.core.Timeline;
+	// Suggested start time on the timeline, based on index and stagger
+	position: number;
+	options: AnimationOptions;
+	// Replace the animated inline styles with the minimal finished styles
+	clean: (node: HTMLElement) => void;
+}
+
+/**
+ * Context for animating every line of a grouped container at once
+ */
+export interface RevealGroupContext {
+	element: HTMLElement;
+	lines: RevealLineContext[];
+	timeline: gsap.core.Timeline;
+	options: AnimationOptions;
+}
+
+/**
+ * Definition of a custom data-reveal type
+ */
+export interface RevealTypeDefinition {
+	// Add the tweens for a single line to the timeline
+	animateLine: (context: RevealLineContext) => void;
+	// Animate all lines of a grouped container; defaults to animateLine per line
+	animateGroup?: (context: RevealGroupContext) => void;
+	// Adjust each generated lines container before it is animated
+	prepare?: (container: HTMLElement, options: AnimationOptions) => void;
+}
+
+/**
+ * Detail of every reveal:* event
+ */
+export interface RevealEventDetail {
+	options: AnimationOptions;
+}
+
+export interface RevealPrepareEventDetail extends RevealEventDetail {
+	lineCount: number;
+	lines: HTMLElement[];
+}
+
+export interface RevealLineEventDetail extends RevealEventDetail {
+	index: number;
+	line: HTMLElement;
+}
+
+declare global {
+	interface HTMLElementEventMap {
+		'reveal:prepare': CustomEvent<RevealPrepareEventDetail>;
+		'reveal:start': CustomEvent<RevealEventDetail>;
+		'reveal:line': CustomEvent<RevealLineEventDetail>;
+		'reveal:complete': CustomEvent<RevealEventDetail>;
+	}
 }
 
+const BUILT_IN_REVEAL_TYPES = ['slide', 'perspective'];
+
+// Reveal types that animate the element as one box, without splitting text
+const ELEMENT_REVEAL_TYPES = ['fade-up', 'scale-in', 'clip-up'];
+
+// Custom reveal types registered with registerRevealType
+const revealTypes = new Map<string, RevealTypeDefinition>();
+
+// Bidirectional text handling
+const BIDI = {
+	// Letters of right-to-left scripts
+	RTL_CHARACTERS:
+		/[\p{Script=Hebrew}\p{Script=Arabic}\p{Script=Syriac}\p{Script=Thaana}\p{Script=Nko}\p{Script=Samaritan}\p{Script=Mandaic}\p{Script=Adlam}]/u,
+	// Letters of cursive scripts, which lose their joining when split apart
+	JOINING_CHARACTERS:
+		/[\p{Script=Arabic}\p{Script=Syriac}\p{Script=Nko}\p{Script=Mandaic}\p{Script=Adlam}\p{Script=Mongolian}]/u,
+	MARKS: { ltr: '\u200E', rtl: '\u200F' },
+	// Explicit embeddings, overrides and isolates, mapped to their terminator
+	OPENERS: {
+		'\u202A': '\u202C',
+		'\u202B': '\u202C',
+		'\u202D': '\u202C',
+		'\u202E': '\u202C',
+		'\u2066': '\u2069',
+		'\u2067': '\u2069',
+		'\u2068': '\u2069',
+	} as Record<string, string>,
+};
+
 const ACCESSIBILITY = {
 	SR_ONLY_CLASS: 'sr-only',
 	SR_ONLY_STYLE:
@@ -50,174 +322,1467 @@ const ACCESSIBILITY = {
 };
 
 /**
- * Standardize animation options by applying defaults
+ * Site-wide defaults, used for every option an element doesn't set itself
+ */
+export interface RevealConfig extends AnimationOptions {
+	// Text elements animated together inside a grouped container
+	nestedSelector?: string;
+	// Default data-reveal-threshold and data-reveal-root-margin
+	threshold?: number;
+	rootMargin?: string;
+}
+
+// Expected type of every config key, used to validate untyped input
+const CONFIG_KEYS: Record<keyof RevealConfig, string | readonly string[]> = {
+	duration: 'number',
+	delay: 'number',
+	stagger: 'number',
+	fade: 'boolean',
+	blur: 'boolean',
+	keepWillChange: 'boolean',
+	reducedMotion: REDUCED_MOTION_MODES,
+	split: SPLIT_MODES,
+	repeat: 'boolean',
+	exit: EXIT_MODES,
+	scrub: 'boolean',
+	scrubStart: 'number',
+	scrubEnd: 'number',
+	relayout: RELAYOUT_MODES,
+	ease: 'ease',
+	lineEase: 'ease',
+	from: REVEAL_DIRECTIONS,
+	perspective: 'string',
+	rotate: 'number',
+	depth: 'string',
+	blurAmount: 'number',
+	origin: 'string',
+	cascade: 'number',
+	lineDurationRatio: 'number',
+	group: 'string',
+	groupStagger: 'number',
+	groupOrder: GROUP_ORDERS,
+	nestedSelector: 'selector',
+	threshold: 'number',
+	rootMargin: 'string',
+};
+
+// Defaults set with configureReveal, and those read from the config script.
+// configureReveal wins over the script; revealConfig holds the merged result.
+let userConfig: RevealConfig = {};
+let scriptConfig: RevealConfig = {};
+let revealConfig: RevealConfig = {};
+
+/**
+ * Checks a config value against the type its key expects
+ */
+const isValidConfigValue = (
+	key: keyof RevealConfig,
+	value: unknown
+): boolean => {
+	const expected = CONFIG_KEYS[key];
+
+	if (key === 'threshold') {
+		return typeof value === 'number' && value >= 0 && value <= 1;
+	}
+	if (key === 'groupStagger') {
+		return typeof value === 'number' && Number.isFinite(value) && value >= 0;
+	}
+
+	if (Array.isArray(expected)) return expected.includes(value as string);
+	if (expected === 'number') {
+		return typeof value === 'number' && Number.isFinite(value);
+	}
+	if (expected === 'ease') {
+		return (
+			typeof value === 'function' ||
+			(typeof value === 'string' && parseEase(value) !== undefined)
+		);
+	}
+	if (expected === 'selector') {
+		if (typeof value !== 'string') return false;
+		try {
+			document.createDocumentFragment().querySelector(value);
+			return true;
+		} catch {
+			return false;
+		}
+	}
+	return typeof value === expected;
+};
+
+/**
+ * Keeps the known, valid keys of a config object, warning about the rest.
+ * Keys set to undefined are kept so they can clear an earlier value.
+ */
+const validateConfig = (config: unknown, source: string): RevealConfig => {
+	if (
+		typeof config !== 'object' ||
+		config === null ||
+		Array.isArray(config)
+	) {
+		warn(`Invalid ${source}, expected an object`);
+		return {};
+	}
+
+	const valid: Record<string, unknown> = {};
+	Object.entries(config).forEach(([key, value]) => {
+		if (!(key in CONFIG_KEYS)) {
+			warn(`Unknown ${source} option "${key}"`);
+		} else if (
+			value === undefined ||
+			isValidConfigValue(key as keyof RevealConfig, value)
+		) {
+			// cubic-bezier() strings are turned into ease functions up front
+			valid[key] =
+				CONFIG_KEYS[key as keyof RevealConfig] === 'ease' &&
+				typeof value === 'string'
+					? parseEase(value)
+					: value;
+		} else {
+			warn(`Invalid ${source} option ${key}: ${JSON.stringify(value)}`);
+		}
+	});
+	return valid as RevealConfig;
+};
+
+/**
+ * Merges the config layers, dropping keys that were cleared
+ */
+const updateRevealConfig = (): void => {
+	const merged: Record<string, unknown> = { ...scriptConfig, ...userConfig };
+	Object.keys(merged).forEach((key) => {
+		if (merged[key] === undefined) delete merged[key];
+	});
+	revealConfig = merged as RevealConfig;
+};
+
+/**
+ * Reads the site-wide defaults from
+ * <script type="application/json" id="reveal-config">
+ */
+const readConfigScript = (): void => {
+	const script = document.getElementById('reveal-config');
+	const json = script?.textContent?.trim();
+	scriptConfig = {};
+
+	if (json) {
+		try {
+			scriptConfig = validateConfig(JSON.parse(json), '#reveal-config');
+		} catch {
+			warn('Invalid JSON in #reveal-config, ignoring it');
+		}
+	}
+
+	updateRevealConfig();
+};
+
+/**
+ * Sets site-wide defaults for every option an element doesn't set itself.
+ * Calls are merged; set a key to undefined to go back to the default.
+ * Options apply to reveals that start afterwards, observer settings and the
+ * nested selector to elements picked up afterwards.
+ */
+const configureReveal = (config: RevealConfig): void => {
+	userConfig = {
+		...userConfig,
+		...validateConfig(config, 'configureReveal'),
+	};
+	updateRevealConfig();
+};
+
+/**
+ * Selector of the text elements a grouped container animates, from its
+ * data-reveal-targets attribute or the configured default
+ */
+const getNestedSelector = (element: HTMLElement): string => {
+	const fallback =
+		revealConfig.nestedSelector ?? SELECTORS.NESTED_TEXT_ELEMENTS;
+	const value = element.getAttribute('data-reveal-targets')?.trim();
+	if (!value) return fallback;
+
+	try {
+		element.querySelector(value);
+		return value;
+	} catch {
+		warnAttribute(
+			element,
+			'data-reveal-targets',
+			`Invalid data-reveal-targets "${value}", using "${fallback}"`
+		);
+		return fallback;
+	}
+};
+
+/**
+ * Text elements matching a grouped container's selector. Lists stand for
+ * their items, so each item keeps its marker.
+ */
+const getNestedMatches = (element: HTMLElement): HTMLElement[] => {
+	const matches = new Set<HTMLElement>();
+	element
+		.querySelectorAll<HTMLElement>(getNestedSelector(element))
+		.forEach((match) => {
+			if (match.matches(SELECTORS.LIST_CONTAINERS)) {
+				match
+					.querySelectorAll<HTMLElement>(SELECTORS.LIST_ITEMS)
+					.forEach((item) => matches.add(item));
+			} else {
+				matches.add(match);
+			}
+		});
+	return Array.from(matches);
+};
+
+/**
+ * Text elements a grouped container animates. A match containing other
+ * matches is left to them, so nothing is split twice.
+ */
+const getNestedTargets = (element: HTMLElement): HTMLElement[] => {
+	const matches = getNestedMatches(element);
+	return matches.filter(
+		(match) =>
+			!matches.some((other) => other !== match && match.contains(other))
+	);
+};
+
+/**
+ * Like getNestedTargets, but the text an outer match has around its inner
+ * matches ("Intro" in <li>Intro <ul><li>…</li></ul></li>) is wrapped in
+ * spans that are animated as targets too, in document order
+ */
+const prepareNestedTargets = (element: HTMLElement): HTMLElement[] => {
+	const matches = getNestedMatches(element);
+	const targets = getNestedTargets(element);
+	const outer = matches.filter((match) => !targets.includes(match));
+
+	return [
+		...targets,
+		...outer.flatMap((match) => wrapOwnText(match, matches)),
+	].sort((a, b) =>
+		a.compareDocumentPosition(b) & Node.DOCUMENT_POSITION_FOLLOWING ? -1 : 1
+	);
+};
+
+/**
+ * Wraps each run of a match's child nodes that holds text but no other
+ * match in a span, descending into children that contain matches
+ */
+const wrapOwnText = (
+	parent: HTMLElement,
+	matches: HTMLElement[]
+): HTMLElement[] => {
+	const wrappers: HTMLElement[] = [];
+	let run: ChildNode[] = [];
+
+	const wrapRun = (): void => {
+		if (run.some((node) => node.textContent?.trim())) {
+			const wrapper = document.createElement('span');
+			run[0].before(wrapper);
+			wrapper.append(...run);
+			wrappers.push(wrapper);
+		}
+		run = [];
+	};
+
+	Array.from(parent.childNodes).forEach((node) => {
+		const holdsMatch =
+			node instanceof HTMLElement &&
+			matches.some((match) => node === match || node.contains(match));
+		if (!holdsMatch) {
+			run.push(node);
+			return;
+		}
+
+		wrapRun();
+		// Other matches wrap their own text
+		if (!matches.includes(node as HTMLElement)) {
+			wrappers.push(...wrapOwnText(node as HTMLElement, matches));
+		}
+	});
+	wrapRun();
+
+	return wrappers;
+};
+
+/**
+ * Standardize animation options: element attributes first, then the
+ * configured site-wide defaults, then the built-in defaults
  */
 const standardizeOptions = (element: HTMLElement): AnimationOptions => {
+	const defaults = revealConfig;
+	const split = getSplitMode(element);
+	const repeat = getBooleanAttribute(
+		element,
+		'data-reveal-repeat',
+		defaults.repeat ?? false
+	);
+	const scrub = getBooleanAttribute(
+		element,
+		'data-reveal-scrub',
+		defaults.scrub ?? false
+	);
+
 	return {
 		duration: getAttributeValue(
 			element,
 			'data-reveal-duration',
-			DEFAULT_ANIMATION_VALUES.DURATION
+			defaults.duration ?? DEFAULT_ANIMATION_VALUES.DURATION
 		),
 		delay: getAttributeValue(
 			element,
 			'data-reveal-delay',
-			DEFAULT_ANIMATION_VALUES.DELAY
+			defaults.delay ?? DEFAULT_ANIMATION_VALUES.DELAY
 		),
 		stagger: getAttributeValue(
 			element,
 			'data-reveal-stagger',
-			DEFAULT_ANIMATION_VALUES.STAGGER
+			defaults.stagger ??
+				(split === 'chars'
+					? DEFAULT_ANIMATION_VALUES.STAGGER_CHARS
+					: split === 'words'
+					? DEFAULT_ANIMATION_VALUES.STAGGER_WORDS
+					: DEFAULT_ANIMATION_VALUES.STAGGER)
+		),
+		fade: getBooleanAttribute(
+			element,
+			'data-reveal-fade',
+			defaults.fade ?? false
 		),
-		fade: element.hasAttribute('data-reveal-fade'),
-		blur: element.hasAttribute('data-reveal-blur'),
-		keepWillChange: element.hasAttribute('data-reveal-keep-will-change'),
+		blur: getBooleanAttribute(
+			element,
+			'data-reveal-blur',
+			defaults.blur ?? false
+		),
+		keepWillChange: getBooleanAttribute(
+			element,
+			'data-reveal-keep-will-change',
+			defaults.keepWillChange ?? false
+		),
+		reducedMotion: getReducedMotionMode(element),
+		split,
+		repeat,
+		exit: getExitMode(element),
+		scrub,
+		scrubStart: getViewportOffset(
+			element,
+			'data-reveal-scrub-start',
+			defaults.scrubStart ?? DEFAULT_ANIMATION_VALUES.SCRUB_START
+		),
+		scrubEnd: getViewportOffset(
+			element,
+			'data-reveal-scrub-end',
+			defaults.scrubEnd ?? DEFAULT_ANIMATION_VALUES.SCRUB_END
+		),
+		relayout: getRelayoutMode(element, repeat || scrub),
+		ease: getEase(element, 'data-reveal-ease') ?? defaults.ease,
+		lineEase: getEase(element, 'data-reveal-line-ease') ?? defaults.lineEase,
+		from: getDirection(element),
+		perspective:
+			getCssValue(element, 'data-reveal-perspective', 'perspective') ??
+			defaults.perspective,
+		rotate: getRotation(element) ?? defaults.rotate,
+		depth:
+			getCssValue(element, 'data-reveal-depth', 'translate') ??
+			defaults.depth,
+		blurAmount: getBlurAmount(element) ?? defaults.blurAmount,
+		origin:
+			getCssValue(element, 'data-reveal-origin', 'transform-origin') ??
+			defaults.origin,
+		cascade: getCascade(element) ?? defaults.cascade,
+		lineDurationRatio:
+			getPositiveValue(element, 'data-reveal-line-duration-ratio') ??
+			defaults.lineDurationRatio,
+		group:
+			element.getAttribute('data-reveal-group')?.trim() || defaults.group,
+		groupStagger: getAttributeValue(
+			element,
+			'data-reveal-group-stagger',
+			defaults.groupStagger ?? DEFAULT_ANIMATION_VALUES.GROUP_STAGGER
+		),
+		groupOrder: getGroupOrder(element),
 	};
 };
 
-// Store animated elements and their original text
-const animatedElements: HTMLElement[] = [];
-let resizeTimeout: number | null = null;
-
-// Helper: apply minimal inline style after animation is done
-const applyCleanStyles = (
-	node: HTMLElement,
-	isSpan: boolean,
-	keepWillChange: boolean
-): void => {
-	const base = `${
-		isSpan ? 'display: inline-block;' : 'display: block;'
-	} opacity: 1;`;
-	node.style.cssText = keepWillChange
-		? `${base} will-change: transform;`
-		: base;
+/**
+ * Get a boolean attribute. Present means true unless its value is "false",
+ * which opts the element out of a site-wide default.
+ */
+const getBooleanAttribute = (
+	element: HTMLElement,
+	attr: string,
+	defaultValue: boolean
+): boolean => {
+	if (!element.hasAttribute(attr)) return defaultValue;
+	return element.getAttribute(attr)?.trim() !== 'false';
 };
 
 /**
- * Initializes animations by finding elements with data-reveal attribute
- * and setting up intersection observers
+ * Get the slide cascade: the starting offset of the last line in percent.
+ * "none" or "off" turns the progressive offset off.
  */
-const initTextAnimations = (): void => {
-	// Initialize the observer
-	const observer = new IntersectionObserver(
-		(entries) => handleIntersection(entries, observer),
-		{
-			root: null,
-			rootMargin: '0px',
-			threshold: 0.1,
-		}
-	);
-
-	// Find all elements with data-reveal attribute
-	const elements = document.querySelectorAll('[data-reveal]');
-
-	elements.forEach((element) => {
-		const htmlElement = element as HTMLElement;
+const getCascade = (element: HTMLElement): number | undefined => {
+	const value = element.getAttribute('data-reveal-cascade')?.trim();
+	if (!value) return undefined;
+	if (value === 'none' || value === 'off') return 0;
 
-		// Store original text content
-		(htmlElement as any).originalText = htmlElement.innerHTML;
+	if (/^\d*\.?\d+%?$/.test(value)) return parseFloat(value);
 
-		// Set initial opacity to 0 directly if it's not already set
-		if (htmlElement.style.opacity !== '0') {
-			htmlElement.style.opacity = '0';
-		}
+	warnAttribute(
+		element,
+		'data-reveal-cascade',
+		`Invalid data-reveal-cascade "${value}", using the default`
+	);
+	return undefined;
+};
 
-		// Add to animated elements array
-		animatedElements.push(htmlElement);
+/**
+ * Get a positive number from an attribute, warning about invalid values
+ */
+const getPositiveValue = (
+	element: HTMLElement,
+	attr: string
+): number | undefined => {
+	const value = element.getAttribute(attr)?.trim();
+	if (!value) return undefined;
 
-		// Start observing the element
-		observer.observe(htmlElement);
-	});
+	const parsed = Number(value);
+	if (Number.isFinite(parsed) && parsed > 0) return parsed;
 
-	// Add window resize event listener
-	window.addEventListener('resize', handleWindowResize);
+	warnAttribute(element, attr, `Invalid ${attr} "${value}", using the default`);
+	return undefined;
 };
 
 /**
- * Handles window resize events
- * Restores only text-based animated elements to their original form
+ * Get a CSS value for the given property, validated by the browser.
+ * Unitless numbers are treated as pixels.
  */
-const handleWindowResize = (): void => {
-	// Use a timeout to prevent excessive function calls during resize
-	if (resizeTimeout !== null) {
-		window.clearTimeout(resizeTimeout);
-	}
+const getCssValue = (
+	element: HTMLElement,
+	attr: string,
+	property: string
+): string | undefined => {
+	const value = element.getAttribute(attr)?.trim();
+	if (!value) return undefined;
 
-	resizeTimeout = window.setTimeout(() => {
-		// Process only text-based animated elements
-		animatedElements.forEach((element) => {
-			const animType = element.getAttribute('data-reveal');
-			// Only restore text-based animations (slide, perspective)
-			if (animType && ['slide', 'perspective'].includes(animType)) {
-				restoreOriginalText(element);
-			}
-		});
-	}, 10);
+	const cssValue = /^-?\d*\.?\d+$/.test(value) ? `${value}px` : value;
+	if (CSS.supports(property, cssValue)) return cssValue;
+
+	warnAttribute(element, attr, `Invalid ${attr} "${value}", using the default`);
+	return undefined;
 };
 
 /**
- * Restores an element to its original text form
- * Preserves styling and animations already applied
+ * Get the perspective rotation in degrees ("60" or "60deg")
  */
-const restoreOriginalText = (element: HTMLElement): void => {
-	// Skip if element doesn't have originalText property
-	if (!(element as any).originalText) return;
+const getRotation = (element: HTMLElement): number | undefined => {
+	const value = element.getAttribute('data-reveal-rotate')?.trim();
+	if (!value) return undefined;
 
-	// Get computed style of the element
-	const computedStyle = window.getComputedStyle(element);
-	const originalStyle = {
-		color: computedStyle.color,
-		fontWeight: computedStyle.fontWeight,
-		fontSize: computedStyle.fontSize,
-		lineHeight: computedStyle.lineHeight,
-		letterSpacing: computedStyle.letterSpacing,
-		textAlign: computedStyle.textAlign,
-		opacity: computedStyle.opacity,
-	};
+	if (/^-?\d*\.?\d+(deg)?$/.test(value)) return parseFloat(value);
 
-	// Get all text content from child spans while preserving line breaks
-	const textContent = extractTextWithLineBreaks(element);
+	warnAttribute(
+		element,
+		'data-reveal-rotate',
+		`Invalid data-reveal-rotate "${value}", using the default`
+	);
+	return undefined;
+};
 
-	// Restore original HTML
-	element.innerHTML = (element as any).originalText;
+/**
+ * Get the blur radius in pixels. data-reveal-blur also works as a boolean
+ * attribute, in which case the default radius is used.
+ */
+const getBlurAmount = (element: HTMLElement): number | undefined => {
+	const value = element.getAttribute('data-reveal-blur')?.trim();
+	if (!value || value === 'false') return undefined;
 
-	// Ensure the sr-only span is present after restoring
-	insertSrOnlyText(element);
+	if (/^\d*\.?\d+(px)?$/.test(value)) return parseFloat(value);
 
-	// Apply any styling that might have been applied during animation
-	if (originalStyle.opacity !== '0') {
-		element.style.opacity = originalStyle.opacity;
-	}
+	warnAttribute(
+		element,
+		'data-reveal-blur',
+		`Invalid data-reveal-blur "${value}", using the default`
+	);
+	return undefined;
+};
 
-	// If this element acts as a container for grouped line reveal, ensure nested text elements are visible
-	if (
-		['slide', 'perspective'].includes(element.getAttribute('data-reveal') || '')
-	) {
-		const nestedTextEls = element.querySelectorAll<HTMLElement>(
-			SELECTORS.NESTED_TEXT_ELEMENTS
-		);
-		nestedTextEls.forEach((nested) => {
-			// Only override opacity if not explicitly set from CSS elsewhere
-			nested.style.opacity = '1';
-		});
-	}
+/**
+ * Get one of a fixed set of values from an attribute. Values outside the set
+ * are ignored with a warning, so the caller's fallback applies.
+ */
+const getEnumAttribute = <T extends string>(
+	element: HTMLElement,
+	attr: string,
+	values: readonly T[]
+): T | undefined => {
+	const value = element.getAttribute(attr)?.trim();
+	if (!value) return undefined;
 
-	// Clear any transform properties to prevent performance issues
-	element.style.transform = 'none';
-	element.style.transformOrigin = '';
-	element.style.willChange = 'auto';
+	if (values.includes(value as T)) return value as T;
 
-	// Remove any 3D transform properties if they exist
-	element.style.perspective = '';
-	element.style.transformStyle = '';
+	warnAttribute(
+		element,
+		attr,
+		`Invalid ${attr} "${value}", expected one of ${values.join(', ')}`
+	);
+	return undefined;
 };
 
 /**
- * Extract text from an element while preserving line breaks
+ * Get the direction the text comes in from, defaulting to bottom
  */
-const extractTextWithLineBreaks = (element: HTMLElement): string => {
-	let result = '';
-	const lineElements = element.querySelectorAll('h1, h2, h3, h4, h5, h6, p');
+const getDirection = (element: HTMLElement): RevealDirection =>
+	getEnumAttribute(element, 'data-reveal-from', REVEAL_DIRECTIONS) ??
+	revealConfig.from ??
+	'bottom';
+
+/**
+ * Get an ease from an attribute. Invalid values fall back to the default
+ * ease with a warning.
+ */
+const getEase = (
+	element: HTMLElement,
+	attr: string
+): string | gsap.EaseFunction | undefined => {
+	const value = element.getAttribute(attr)?.trim();
+	if (!value) return undefined;
+
+	const ease = parseEase(value);
+	if (ease === undefined) {
+		warnAttribute(
+			element,
+			attr,
+			`Invalid ${attr} "${value}", using the default ease`
+		);
+	}
+	return ease;
+};
+
+/**
+ * Parse an ease string. GSAP ease strings are passed through,
+ * cubic-bezier() strings become an ease function.
+ */
+const parseEase = (value: string): string | gsap.EaseFunction | undefined => {
+	const bezier = value.match(/^cubic-bezier\(([^)]*)\)$/i);
+	if (bezier) {
+		const points = bezier[1].split(',').map((point) => parseFloat(point));
+		const [x1, y1, x2, y2] = points;
+		if (
+			points.length === 4 &&
+			points.every((point) => Number.isFinite(point)) &&
+			x1 >= 0 &&
+			x1 <= 1 &&
+			x2 >= 0 &&
+			x2 <= 1
+		) {
+			return createCubicBezierEase(x1, y1, x2, y2);
+		}
+	} else if (gsap.parseEase(value)) {
+		return value;
+	}
+
+	return undefined;
+};
+
+/**
+ * Creates an ease function matching CSS cubic-bezier(x1, y1, x2, y2),
+ * so no GSAP plugin is needed for custom curves
+ */
+const createCubicBezierEase = (
+	x1: number,
+	y1: number,
+	x2: number,
+	y2: number
+): gsap.EaseFunction => {
+	// Polynomial coefficients of the curve, with P0 = (0, 0) and P3 = (1, 1)
+	const cx = 3 * x1;
+	const bx = 3 * (x2 - x1) - cx;
+	const ax = 1 - cx - bx;
+	const cy = 3 * y1;
+	const by = 3 * (y2 - y1) - cy;
+	const ay = 1 - cy - by;
+
+	const sampleX = (t: number): number => ((ax * t + bx) * t + cx) * t;
+	const sampleY = (t: number): number => ((ay * t + by) * t + cy) * t;
+	const sampleDerivativeX = (t: number): number =>
+		(3 * ax * t + 2 * bx) * t + cx;
+
+	// Find the curve parameter for x: Newton-Raphson, then bisection
+	const solveT = (x: number): number => {
+		let t = x;
+		for (let i = 0; i < 8; i++) {
+			const error = sampleX(t) - x;
+			if (Math.abs(error) < 1e-6) return t;
+			const derivative = sampleDerivativeX(t);
+			if (Math.abs(derivative) < 1e-6) break;
+			t -= error / derivative;
+		}
+
+		let lower = 0;
+		let upper = 1;
+		t = x;
+		while (upper - lower > 1e-6) {
+			if (sampleX(t) < x) {
+				lower = t;
+			} else {
+				upper = t;
+			}
+			t = (lower + upper) / 2;
+		}
+		return t;
+	};
+
+	return (progress: number): number => {
+		if (progress <= 0) return 0;
+		if (progress >= 1) return 1;
+		return sampleY(solveT(progress));
+	};
+};
+
+/**
+ * Logs a warning about invalid configuration during development
+ */
+const warn = (message: string): void => {
+	if (import.meta.env?.DEV === false) return;
+	console.warn(`[RevealAnimationHandler] ${message}`);
+};
+
+// Attribute values each element has been warned about
+const attributeWarnings = new WeakMap<HTMLElement, Set<string>>();
+
+/**
+ * Warns about an invalid attribute value once per element, since options
+ * are read again on every intersection and relayout
+ */
+const warnAttribute = (
+	element: HTMLElement,
+	attr: string,
+	message: string
+): void => {
+	const key = `${attr}=${element.getAttribute(attr)}`;
+	const warned = attributeWarnings.get(element) || new Set<string>();
+	if (warned.has(key)) return;
+
+	warned.add(key);
+	attributeWarnings.set(element, warned);
+	warn(message);
+};
+
+/**
+ * Get the element's relayout mode. Repeating and scrubbed reveals need their
+ * line structure, so they split again by default; others restore.
+ */
+const getRelayoutMode = (
+	element: HTMLElement,
+	keepsLines: boolean
+): RelayoutMode => {
+	return (
+		getEnumAttribute(element, 'data-reveal-relayout', RELAYOUT_MODES) ??
+		revealConfig.relayout ??
+		(keepsLines ? 'split' : 'restore')
+	);
+};
+
+/**
+ * Get a viewport offset as a fraction of its height.
+ * Accepts percentages ("80%") as well as fractions ("0.8").
+ */
+const getViewportOffset = (
+	element: HTMLElement,
+	attr: string,
+	defaultValue: number
+): number => {
+	const value = element.getAttribute(attr)?.trim();
+	if (!value) return defaultValue;
+
+	const parsed = parseFloat(value);
+	if (Number.isNaN(parsed)) return defaultValue;
+
+	return value.endsWith('%') ? parsed / 100 : parsed;
+};
+
+/**
+ * Get the element's exit mode, defaulting to none
+ */
+const getExitMode = (element: HTMLElement): ExitMode =>
+	getEnumAttribute(element, 'data-reveal-exit', EXIT_MODES) ??
+	revealConfig.exit ??
+	'none';
+
+/**
+ * Get the order its reveal group is staggered in, defaulting to dom
+ */
+const getGroupOrder = (element: HTMLElement): GroupOrder =>
+	getEnumAttribute(element, 'data-reveal-group-order', GROUP_ORDERS) ??
+	revealConfig.groupOrder ??
+	'dom';
+
+/**
+ * Get the element's split mode, defaulting to lines
+ */
+const getSplitMode = (element: HTMLElement): SplitMode =>
+	getEnumAttribute(element, 'data-reveal-split', SPLIT_MODES) ??
+	revealConfig.split ??
+	'lines';
+
+/**
+ * Get the element's reduced motion mode with fallback to the page default
+ */
+const getReducedMotionMode = (element: HTMLElement): ReducedMotionMode =>
+	getEnumAttribute(element, 'data-reveal-reduced', REDUCED_MOTION_MODES) ??
+	revealConfig.reducedMotion ??
+	DEFAULT_ANIMATION_VALUES.REDUCED_MOTION;
+
+/**
+ * Sets the page-wide reduced motion fallback
+ */
+const setReducedMotionDefault = (mode: ReducedMotionMode): void => {
+	configureReveal({ reducedMotion: mode });
+};
+
+const REDUCED_MOTION_QUERY = '(prefers-reduced-motion: reduce)';
+
+/**
+ * Whether the user prefers reduced motion, read whenever a reveal is built
+ * so reveals before initialization follow it too
+ */
+const prefersReducedMotion = (): boolean =>
+	window.matchMedia(REDUCED_MOTION_QUERY).matches;
+
+// Listened to while initialized, so motion already playing follows changes
+let reducedMotionQuery: MediaQueryList | null = null;
+
+const handleReducedMotionChange = (event: MediaQueryListEvent): void => {
+	// Motion that is already playing finishes right away
+	if (event.matches) {
+		Array.from(elementTimelines.keys())
+			.filter((element) => !scrubElements.has(element))
+			.forEach(completeTimeline);
+	}
+};
+
+// Store animated elements and their original text
+const animatedElements: HTMLElement[] = [];
+let resizeTimeout: number | null = null;
+
+// Element-level resize tracking: last known inline size of each element and
+// the elements whose size changed since the last debounced pass
+let resizeObserver: ResizeObserver | null = null;
+const elementInlineSizes = new WeakMap<Element, number>();
+const resizedElements = new Set<HTMLElement>();
+
+// Intersection observers, shared by all elements with the same settings
+interface ObserverEntry {
+	root: Element | null;
+	key: string;
+	observer: IntersectionObserver;
+}
+const observers: ObserverEntry[] = [];
+const elementObservers = new WeakMap<HTMLElement, IntersectionObserver>();
+let initialized = false;
+
+// Elements whose markup has been replaced by an animation
+const revealedElements = new WeakSet<HTMLElement>();
+
+// Options each element's latest reveal was built with, including reveal()
+// overrides and group delays, so a relayout rebuilds the same reveal
+const elementOptions = new WeakMap<HTMLElement, AnimationOptions>();
+
+// Registry of each element's reveal timeline. One-shot reveals are released
+// when they complete; repeating and scrubbed ones are kept so they can replay.
+const elementTimelines = new Map<HTMLElement, gsap.core.Timeline>();
+
+/**
+ * Stops the element's timeline where it is and releases it
+ */
+const killTimeline = (element: HTMLElement): void => {
+	elementTimelines.get(element)?.kill();
+	elementTimelines.delete(element);
+};
+
+/**
+ * Fast-forwards the element's timeline to its end, so its completion
+ * callbacks, events and promises still run, then releases it
+ */
+const completeTimeline = (element: HTMLElement): void => {
+	const timeline = elementTimelines.get(element);
+	if (!timeline) return;
+
+	timeline.progress(1);
+	timeline.kill();
+	elementTimelines.delete(element);
+};
+
+// Elements whose latest reveal has finished playing
+const completedElements = new WeakSet<HTMLElement>();
+
+// Pending whenRevealed() promises per element
+interface RevealWaiter {
+	resolve: () => void;
+	reject: (reason: unknown) => void;
+}
+const revealWaiters = new Map<HTMLElement, RevealWaiter[]>();
+
+// Scroll-scrubbed elements and the scroll container their offsets refer to
+interface ScrubEntry {
+	options: AnimationOptions;
+	root: Element | null;
+	active: boolean;
+}
+const scrubElements = new Map<HTMLElement, ScrubEntry>();
+let scrubFrame: number | null = null;
+
+// Grouped reveals waiting for the next frame, so the members of a
+// data-reveal-group that enter together are staggered as one sequence
+interface GroupQueueEntry {
+	element: HTMLElement;
+	options: AnimationOptions;
+}
+const groupQueues = new Map<string, GroupQueueEntry[]>();
+let groupFrame: number | null = null;
+
+// Opt-in watcher for [data-reveal] elements added after initialization
+let mutationObserver: MutationObserver | null = null;
+let watchEnabled = false;
+
+// Helper: apply minimal inline style after animation is done.
+// Repeating and scrubbed reveals keep their animated styles so the timeline
+// can replay.
+const applyCleanStyles = (
+	node: HTMLElement,
+	isSpan: boolean,
+	options: AnimationOptions
+): void => {
+	if (options.repeat || options.scrub) return;
+
+	const base = `${
+		isSpan ? 'display: inline-block;' : 'display: block;'
+	} opacity: 1;`;
+	node.style.cssText = options.keepWillChange
+		? `${base} will-change: transform;`
+		: base;
+};
+
+/**
+ * Initializes animations by finding elements with data-reveal attribute
+ * and setting up intersection observers
+ */
+const initTextAnimations = (): void => {
+	// Start from a clean slate if we were already initialized
+	if (initialized) {
+		destroy();
+	}
+
+	initialized = true;
+
+	// Pick up the page's site-wide defaults before reading any element
+	readConfigScript();
+
+	// Find and observe all elements with data-reveal attribute
+	refresh(document);
+
+	// Follow the user's reduced motion preference
+	reducedMotionQuery = window.matchMedia(REDUCED_MOTION_QUERY);
+	reducedMotionQuery.addEventListener('change', handleReducedMotionChange);
+
+	// Keep picking up elements inserted later on, if requested
+	if (watchEnabled) {
+		startMutationObserver();
+	}
+
+	// Scroll events don't bubble, capture them to follow any scroll container
+	document.addEventListener('scroll', requestScrubUpdate, {
+		capture: true,
+		passive: true,
+	});
+};
+
+/**
+ * Returns the observer matching the element's threshold, root margin and
+ * root, creating it the first time that combination is seen
+ */
+const getObserver = (element: HTMLElement): IntersectionObserver => {
+	const threshold = getThreshold(element);
+	const rootMargin =
+		element.getAttribute('data-reveal-root-margin')?.trim() ||
+		revealConfig.rootMargin ||
+		DEFAULT_OBSERVER_VALUES.ROOT_MARGIN;
+	const root = getObserverRoot(element);
+
+	try {
+		return getObserverFor(root, threshold, rootMargin);
+	} catch (error) {
+		// IntersectionObserver throws a SyntaxError on a malformed rootMargin
+		if (!(error instanceof DOMException && error.name === 'SyntaxError')) {
+			throw error;
+		}
+		warnAttribute(
+			element,
+			'data-reveal-root-margin',
+			`Invalid root margin "${rootMargin}", using "${DEFAULT_OBSERVER_VALUES.ROOT_MARGIN}"`
+		);
+		return getObserverFor(
+			root,
+			threshold,
+			DEFAULT_OBSERVER_VALUES.ROOT_MARGIN
+		);
+	}
+};
+
+/**
+ * Get the element's threshold, a fraction ("0.5") or a percentage ("50%")
+ * between 0 and 1, warning about invalid values
+ */
+const getThreshold = (element: HTMLElement): number => {
+	const configured = revealConfig.threshold;
+	const fallback =
+		configured !== undefined && configured >= 0 && configured <= 1
+			? configured
+			: DEFAULT_OBSERVER_VALUES.THRESHOLD;
+
+	const value = element.getAttribute('data-reveal-threshold')?.trim();
+	if (!value) return fallback;
+
+	const parsed = /%$/.test(value)
+		? Number(value.slice(0, -1)) / 100
+		: Number(value);
+	if (Number.isFinite(parsed) && parsed >= 0 && parsed <= 1) return parsed;
+
+	warnAttribute(
+		element,
+		'data-reveal-threshold',
+		`Invalid data-reveal-threshold "${value}", using ${fallback}`
+	);
+	return fallback;
+};
+
+/**
+ * Returns the shared observer for a root, root margin and threshold
+ */
+const getObserverFor = (
+	root: Element | null,
+	threshold: number,
+	rootMargin: string
+): IntersectionObserver => {
+	const key = `${threshold}|${rootMargin}`;
+	const existing = observers.find(
+		(entry) => entry.root === root && entry.key === key
+	);
+	if (existing) return existing.observer;
+
+	const observer = new IntersectionObserver(
+		(entries, currentObserver) => handleIntersection(entries, currentObserver),
+		{ root, rootMargin, threshold }
+	);
+	observers.push({ root, key, observer });
+	return observer;
+};
+
+/**
+ * Resolves data-reveal-root to the closest matching ancestor, so repeated
+ * components each observe their own container. An observer only reports
+ * targets inside its root, so other matches are never used.
+ */
+const getObserverRoot = (element: HTMLElement): Element | null => {
+	const selector = element.getAttribute('data-reveal-root');
+	if (!selector) return null;
+
+	try {
+		const root = element.parentElement?.closest(selector);
+		if (root) return root;
+	} catch {
+		// Invalid selector, reported below
+	}
+
+	warnAttribute(
+		element,
+		'data-reveal-root',
+		`data-reveal-root "${selector}" didn't match an ancestor, using the viewport`
+	);
+	return null;
+};
+
+/**
+ * Starts observing an element with its shared observer
+ */
+const observeElement = (element: HTMLElement): void => {
+	if (!initialized) return;
+
+	const observer = getObserver(element);
+	elementObservers.set(element, observer);
+	observer.observe(element);
+};
+
+/**
+ * Stops observing an element
+ */
+const unobserveElement = (element: HTMLElement): void => {
+	elementObservers.get(element)?.unobserve(element);
+	elementObservers.delete(element);
+};
+
+/**
+ * Prepares an element for revealing: stores its original markup,
+ * hides it and registers it as an animated element
+ */
+const trackElement = (element: HTMLElement): void => {
+	if (animatedElements.includes(element)) return;
+
+	// Store original text content; element reveals never rewrite their markup
+	if (!isElementRevealType(getRevealType(element))) {
+		(element as any).originalText = element.innerHTML;
+	}
+
+	// Set initial opacity to 0 directly if it's not already set
+	if (element.style.opacity !== '0') {
+		element.style.opacity = '0';
+	}
+
+	// Add to animated elements array
+	animatedElements.push(element);
+
+	// Re-layout text when the element's own width changes, and notice when
+	// any element is removed
+	getResizeObserver().observe(element);
+};
+
+/**
+ * Returns the shared ResizeObserver, creating it on first use
+ */
+const getResizeObserver = (): ResizeObserver => {
+	if (!resizeObserver) {
+		resizeObserver = new ResizeObserver(handleElementResize);
+	}
+	return resizeObserver;
+};
+
+/**
+ * Stops observing an element and removes it from the animated elements
+ */
+const untrackElement = (element: HTMLElement): void => {
+	const index = animatedElements.indexOf(element);
+	if (index === -1) return;
+
+	unobserveElement(element);
+	resizeObserver?.unobserve(element);
+	resizedElements.delete(element);
+	killTimeline(element);
+	scrubElements.delete(element);
+	dequeueGroupReveal(element);
+	animatedElements.splice(index, 1);
+	rejectWaiters(element, 'The element was removed before its reveal finished');
+};
+
+/**
+ * Finds [data-reveal] elements under root that are not tracked yet and
+ * starts observing them. Elements that left the document are released.
+ * Does nothing until initTextAnimations() runs, which picks them up itself.
+ */
+const refresh = (root: ParentNode = document): void => {
+	// Tracking hides elements, which only an observer would reveal again
+	if (!initialized) return;
+
+	// Release elements that are no longer part of the document
+	animatedElements
+		.filter((element) => !element.isConnected)
+		.forEach(untrackElement);
+
+	const elements = Array.from(
+		root.querySelectorAll<HTMLElement>('[data-reveal]')
+	);
+	if (root instanceof HTMLElement && root.hasAttribute('data-reveal')) {
+		elements.unshift(root);
+	}
+
+	elements.forEach((element) => {
+		if (animatedElements.includes(element)) return;
+
+		// Skip elements inside a tracked text element; its animation owns their
+		// markup. Element reveals leave their contents alone.
+		if (animatedElements.some((tracked) => ownsMarkupOf(tracked, element))) {
+			return;
+		}
+
+		trackElement(element);
+
+		// Start observing the element
+		observeElement(element);
+	});
+};
+
+/**
+ * Handles DOM mutations reported by the watcher: observes newly inserted
+ * [data-reveal] elements and releases the ones that were removed
+ */
+const handleMutations = (mutations: MutationRecord[]): void => {
+	const addedRoots: HTMLElement[] = [];
+	let hasRemovals = false;
+
+	mutations.forEach((mutation) => {
+		mutation.addedNodes.forEach((node) => {
+			if (node instanceof HTMLElement) addedRoots.push(node);
+		});
+		if (mutation.removedNodes.length > 0) hasRemovals = true;
+	});
+
+	if (hasRemovals) {
+		animatedElements
+			.filter((element) => !element.isConnected)
+			.forEach(untrackElement);
+	}
+
+	addedRoots.forEach((root) => {
+		// Ignore nodes that were already removed again, such as our
+		// temporary line analysis clones
+		if (!root.isConnected) return;
+		refresh(root);
+	});
+};
+
+/**
+ * Starts the mutation watcher on the document body
+ */
+const startMutationObserver = (): void => {
+	if (mutationObserver) return;
+
+	mutationObserver = new MutationObserver(handleMutations);
+	mutationObserver.observe(document.body, { childList: true, subtree: true });
+};
+
+/**
+ * Stops the mutation watcher
+ */
+const stopMutationObserver = (): void => {
+	mutationObserver?.disconnect();
+	mutationObserver = null;
+};
+
+/**
+ * Opts in to (or out of) automatically tracking [data-reveal] elements that
+ * are inserted or removed after initialization. The setting survives page
+ * navigations; the watcher itself only runs while the handler is initialized.
+ */
+const watchMutations = (enabled: boolean = true): void => {
+	watchEnabled = enabled;
+
+	if (!enabled) {
+		stopMutationObserver();
+	} else if (initialized) {
+		startMutationObserver();
+	}
+};
+
+/**
+ * Reveals an element immediately instead of waiting for it to enter the
+ * viewport. Options override the element's data-reveal-* attributes and are
+ * validated like configureReveal's; undefined keys keep the attribute.
+ * The reveal plays once: repeat, scrub and group need the observer, which
+ * reset() hands the element back to.
+ */
+const reveal = (element: HTMLElement, options: AnimationOptions = {}): void => {
+	trackElement(element);
+	unobserveElement(element);
+	dequeueGroupReveal(element);
+
+	const overrides: Record<string, unknown> = {
+		...validateConfig(options, 'reveal()'),
+	};
+	Object.keys(overrides).forEach((key) => {
+		if (overrides[key] === undefined) delete overrides[key];
+	});
+
+	if (overrides.repeat || overrides.scrub || overrides.group) {
+		warn('reveal() plays once, ignoring its repeat, scrub and group options');
+	}
+
+	animateElement(element, {
+		...standardizeOptions(element),
+		...overrides,
+		repeat: false,
+		scrub: false,
+		group: undefined,
+	});
+};
+
+/**
+ * Returns an element to its hidden, unrevealed state. If the element is
+ * being observed it will reveal again the next time it enters the viewport.
+ */
+const reset = (element: HTMLElement): void => {
+	if (!animatedElements.includes(element)) return;
+
+	killTimeline(element);
+	scrubElements.delete(element);
+	dequeueGroupReveal(element);
+	gsap.killTweensOf([element, ...element.querySelectorAll('*')]);
+	if (isElementRevealType(getRevealType(element))) {
+		gsap.set(element, { clearProps: ELEMENT_REVEAL_PROPS });
+	} else {
+		element.innerHTML = (element as any).originalText;
+	}
+	element.style.opacity = '0';
+	revealedElements.delete(element);
+	completedElements.delete(element);
+
+	observeElement(element);
+};
+
+/**
+ * Resolves once the element's reveal has finished. Resolves immediately if
+ * it already has; rejects with an AbortError if the element is not in the
+ * document or can't be revealed, or if it is removed or the handler is torn
+ * down (e.g. on navigation) first. A [data-reveal] element inside a text
+ * reveal resolves with the ancestor that animates it.
+ */
+const whenRevealed = (element: HTMLElement): Promise<void> => {
+	if (completedElements.has(element)) return Promise.resolve();
+
+	if (!element.isConnected) {
+		return Promise.reject(
+			new DOMException('The element is not in the document', 'AbortError')
+		);
+	}
+
+	const owner = getMarkupOwner(element);
+	if (owner) return whenRevealed(owner);
+
+	if (
+		!element.hasAttribute('data-reveal') &&
+		!animatedElements.includes(element)
+	) {
+		return Promise.reject(
+			new DOMException(
+				'The element has no data-reveal attribute',
+				'AbortError'
+			)
+		);
+	}
+
+	return new Promise((resolve, reject) => {
+		const waiters = revealWaiters.get(element) || [];
+		waiters.push({ resolve, reject });
+		revealWaiters.set(element, waiters);
+	});
+};
+
+/**
+ * Reveals every [data-reveal] element under root that hasn't been revealed
+ * yet and resolves once all of them have finished
+ */
+const revealAll = (root: ParentNode = document): Promise<void> => {
+	const elements = Array.from(
+		root.querySelectorAll<HTMLElement>('[data-reveal]')
+	);
+	if (root instanceof HTMLElement && root.hasAttribute('data-reveal')) {
+		elements.unshift(root);
+	}
+
+	// Nested [data-reveal] elements are animated by their text ancestor
+	const targets = elements.filter(
+		(element) => !elements.some((other) => ownsMarkupOf(other, element))
+	);
+
+	targets.forEach((element) => {
+		if (
+			!revealedElements.has(element) &&
+			!elementTimelines.has(element) &&
+			!completedElements.has(element)
+		) {
+			reveal(element);
+		}
+	});
+
+	return Promise.all(targets.map(whenRevealed)).then(() => undefined);
+};
+
+/**
+ * Marks the element's reveal as finished and resolves its waiters
+ */
+const resolveWaiters = (element: HTMLElement): void => {
+	completedElements.add(element);
+	revealWaiters.get(element)?.forEach((waiter) => waiter.resolve());
+	revealWaiters.delete(element);
+};
+
+/**
+ * Rejects the element's waiters with an AbortError
+ */
+const rejectWaiters = (element: HTMLElement, reason: string): void => {
+	revealWaiters
+		.get(element)
+		?.forEach((waiter) =>
+			waiter.reject(new DOMException(reason, 'AbortError'))
+		);
+	revealWaiters.delete(element);
+};
+
+/**
+ * Stops observing every element, kills running timelines and removes all
+ * listeners. Elements keep whatever state they are in; call
+ * initTextAnimations() to start again.
+ */
+const destroy = (): void => {
+	// Clear any pending resize timeouts
+	if (resizeTimeout !== null) {
+		window.clearTimeout(resizeTimeout);
+		resizeTimeout = null;
+	}
+
+	// Stop tracking element sizes
+	resizeObserver?.disconnect();
+	resizeObserver = null;
+	resizedElements.clear();
+
+	// Remove scroll event listener
+	document.removeEventListener('scroll', requestScrubUpdate, {
+		capture: true,
+	});
+	if (scrubFrame !== null) {
+		window.cancelAnimationFrame(scrubFrame);
+		scrubFrame = null;
+	}
+
+	// Drop grouped reveals that haven't started yet
+	if (groupFrame !== null) {
+		window.cancelAnimationFrame(groupFrame);
+		groupFrame = null;
+	}
+	groupQueues.clear();
+
+	// Stop following the reduced motion preference
+	reducedMotionQuery?.removeEventListener('change', handleReducedMotionChange);
+	reducedMotionQuery = null;
+
+	// Stop observing elements and DOM mutations
+	observers.forEach((entry) => entry.observer.disconnect());
+	observers.length = 0;
+	initialized = false;
+	stopMutationObserver();
+
+	// Clear animated elements array to prevent memory leaks
+	animatedElements.length = 0;
+
+	// Stop in-flight tweens before their nodes are detached
+	elementTimelines.forEach((timeline) => timeline.kill());
+	elementTimelines.clear();
+	scrubElements.clear();
+
+	// Pending promises can't complete once the page is torn down
+	Array.from(revealWaiters.keys()).forEach((element) => {
+		rejectWaiters(element, 'The reveal handler was torn down');
+	});
+};
+
+/**
+ * Handles element resize events
+ * Collects the text-based elements whose inline size actually changed and
+ * restores only those to their original form
+ */
+const handleElementResize = (entries: ResizeObserverEntry[]): void => {
+	entries.forEach((entry) => {
+		const element = entry.target as HTMLElement;
+
+		// Removed elements report a size of 0: release them and their waiters
+		if (!element.isConnected) {
+			untrackElement(element);
+			return;
+		}
+
+		const inlineSize =
+			entry.contentBoxSize?.[0]?.inlineSize ?? entry.contentRect.width;
+		const previousSize = elementInlineSizes.get(element);
+		elementInlineSizes.set(element, inlineSize);
+
+		// The first report is the initial size; height-only changes don't rewrap text
+		if (
+			previousSize === undefined ||
+			Math.abs(inlineSize - previousSize) < 1
+		) {
+			return;
+		}
+
+		// Elements that haven't been split yet will measure when they reveal
+		if (revealedElements.has(element)) {
+			resizedElements.add(element);
+		}
+	});
+
+	if (resizedElements.size === 0) return;
+
+	// Use a timeout to prevent excessive function calls during resize
+	if (resizeTimeout !== null) {
+		window.clearTimeout(resizeTimeout);
+	}
+
+	resizeTimeout = window.setTimeout(() => {
+		resizeTimeout = null;
+
+		resizedElements.forEach(relayoutElement);
+		resizedElements.clear();
+
+		// Bring scrubbed elements back in line with the scroll position
+		requestScrubUpdate();
+	}, 10);
+};
+
+/**
+ * Restores an element to its original text form
+ * Preserves styling and animations already applied
+ */
+const restoreOriginalText = (element: HTMLElement): void => {
+	// Skip if element doesn't have originalText property
+	if (!(element as any).originalText) return;
+
+	// Get computed style of the element
+	const computedStyle = window.getComputedStyle(element);
+	const originalStyle = {
+		color: computedStyle.color,
+		fontWeight: computedStyle.fontWeight,
+		fontSize: computedStyle.fontSize,
+		lineHeight: computedStyle.lineHeight,
+		letterSpacing: computedStyle.letterSpacing,
+		textAlign: computedStyle.textAlign,
+		opacity: computedStyle.opacity,
+	};
+
+	// Get all text content from child spans while preserving line breaks
+	const textContent = extractTextWithLineBreaks(element);
+
+	// Restore original HTML
+	element.innerHTML = (element as any).originalText;
+
+	// Ensure the sr-only span is present after restoring
+	insertSrOnlyText(element);
+
+	// Apply any styling that might have been applied during animation
+	if (originalStyle.opacity !== '0') {
+		element.style.opacity = originalStyle.opacity;
+	}
+
+	// If this element acts as a container for grouped line reveal, ensure nested text elements are visible
+	if (isTextRevealType(getRevealType(element))) {
+		getNestedTargets(element).forEach((nested) => {
+			// Only override opacity if not explicitly set from CSS elsewhere
+			nested.style.opacity = '1';
+		});
+	}
+
+	// Clear any transform properties to prevent performance issues
+	element.style.transform = 'none';
+	element.style.transformOrigin = '';
+	element.style.willChange = 'auto';
+
+	// Remove any 3D transform properties if they exist
+	element.style.perspective = '';
+	element.style.transformStyle = '';
+};
+
+/**
+ * Extract text from an element while preserving line breaks
+ */
+const extractTextWithLineBreaks = (element: HTMLElement): string => {
+	let result = '';
+	const lineElements = element.querySelectorAll('h1, h2, h3, h4, h5, h6, p');
 
 	if (lineElements.length > 0) {
 		// Extract text by lines
@@ -227,89 +1792,977 @@ const extractTextWithLineBreaks = (element: HTMLElement): string => {
 			if (index < lineElements.length - 1) {
 				result += '\n';
 			}
-		});
-	} else {
-		// If no line elements, just get the text content
-		result = element.textContent || '';
+		});
+	} else {
+		// If no line elements, just get the text content
+		result = element.textContent || '';
+	}
+
+	return result;
+};
+
+/**
+ * Handles intersection events for animated elements
+ */
+const handleIntersection = (
+	entries: IntersectionObserverEntry[],
+	observer: IntersectionObserver
+): void => {
+	entries.forEach((entry) => {
+		const element = entry.target as HTMLElement;
+
+		// Get animation options
+		const options = standardizeOptions(element);
+		const timeline = elementTimelines.get(element);
+
+		// Scrubbed elements follow the scroll position while they are visible
+		if (options.scrub) {
+			handleScrubIntersection(element, entry.isIntersecting, options);
+			return;
+		}
+
+		if (!entry.isIntersecting) {
+			dequeueGroupReveal(element);
+			if (options.repeat && timeline) {
+				handleExit(timeline, options);
+			}
+			return;
+		}
+
+		// Stop observing once animation is triggered, unless it repeats
+		if (!options.repeat) {
+			observer.unobserve(element);
+			elementObservers.delete(element);
+		}
+
+		if (options.repeat && timeline) {
+			// Replay the kept timeline instead of splitting the text again
+			if (options.exit === 'reverse') {
+				timeline.play();
+			} else {
+				timeline.restart(true);
+			}
+			return;
+		}
+
+		if (options.group) {
+			queueGroupReveal(element, options);
+		} else {
+			animateElement(element, options);
+		}
+	});
+};
+
+/**
+ * Queues a grouped reveal until the next frame, collecting every member of
+ * the group that intersects in the meantime, across all observers
+ */
+const queueGroupReveal = (
+	element: HTMLElement,
+	options: AnimationOptions
+): void => {
+	const group = options.group as string;
+	const queue = groupQueues.get(group) || [];
+	if (queue.some((entry) => entry.element === element)) return;
+
+	queue.push({ element, options });
+	groupQueues.set(group, queue);
+
+	if (groupFrame === null) {
+		groupFrame = window.requestAnimationFrame(flushGroupQueues);
+	}
+};
+
+/**
+ * Drops an element's pending grouped reveal
+ */
+const dequeueGroupReveal = (element: HTMLElement): void => {
+	groupQueues.forEach((queue, group) => {
+		const remaining = queue.filter((entry) => entry.element !== element);
+		if (remaining.length) {
+			groupQueues.set(group, remaining);
+		} else {
+			groupQueues.delete(group);
+		}
+	});
+};
+
+/**
+ * Reveals the queued members of every group, adding the group stagger to
+ * each member's own delay. Order and stagger come from the first member in
+ * document order.
+ */
+const flushGroupQueues = (): void => {
+	groupFrame = null;
+	const queues = Array.from(groupQueues.values());
+	groupQueues.clear();
+
+	queues.forEach((queue) => {
+		const ordered = queue.sort((a, b) =>
+			a.element.compareDocumentPosition(b.element) &
+			Node.DOCUMENT_POSITION_FOLLOWING
+				? -1
+				: 1
+		);
+		const { groupOrder, groupStagger } = ordered[0].options;
+		const stagger = groupStagger ?? DEFAULT_ANIMATION_VALUES.GROUP_STAGGER;
+		const sequence =
+			groupOrder === 'visual' ? sortByVisualOrder(ordered) : ordered;
+
+		sequence.forEach(({ element, options }, index) => {
+			animateElement(element, {
+				...options,
+				delay: (options.delay || 0) + index * stagger,
+			});
+		});
+	});
+};
+
+/**
+ * Sorts group members row by row, left to right. An element starts a new
+ * row when its top is below the middle of the row's first element.
+ */
+const sortByVisualOrder = (entries: GroupQueueEntry[]): GroupQueueEntry[] => {
+	const positioned = entries
+		.map((entry) => ({ entry, rect: entry.element.getBoundingClientRect() }))
+		.sort((a, b) => a.rect.top - b.rect.top);
+
+	const rows: (typeof positioned)[] = [];
+	positioned.forEach((item) => {
+		const row = rows[rows.length - 1];
+		if (row && item.rect.top < row[0].rect.top + row[0].rect.height / 2) {
+			row.push(item);
+		} else {
+			rows.push([item]);
+		}
+	});
+
+	return rows.flatMap((row) =>
+		row.sort((a, b) => a.rect.left - b.rect.left).map((item) => item.entry)
+	);
+};
+
+/**
+ * Starts or stops following the scroll position of a scrubbed element
+ */
+const handleScrubIntersection = (
+	element: HTMLElement,
+	isIntersecting: boolean,
+	options: AnimationOptions
+): void => {
+	let entry = scrubElements.get(element);
+	if (!entry) {
+		if (!isIntersecting) return;
+		entry = { options, root: getObserverRoot(element), active: true };
+		scrubElements.set(element, entry);
+	}
+
+	// Update once more on the way out so fast scrolling still ends at 0 or 1
+	updateScrub(element, entry);
+	entry.active = isIntersecting;
+};
+
+/**
+ * Batches scrub updates into one per animation frame
+ */
+const requestScrubUpdate = (): void => {
+	if (scrubFrame !== null || scrubElements.size === 0) return;
+
+	scrubFrame = window.requestAnimationFrame(() => {
+		scrubFrame = null;
+		scrubElements.forEach((entry, element) => {
+			if (entry.active) updateScrub(element, entry);
+		});
+	});
+};
+
+/**
+ * Sets the scrubbed timeline's progress from the element's position.
+ * Progress is 0 when the element's top is at scrubStart and 1 at scrubEnd,
+ * both measured as a fraction of the viewport (or root) height.
+ */
+const updateScrub = (element: HTMLElement, entry: ScrubEntry): void => {
+	let timeline = elementTimelines.get(element);
+
+	// Build the paused timeline on first use, or after a resize dropped it
+	if (!timeline) {
+		animateElement(element, entry.options);
+		timeline = elementTimelines.get(element);
+
+		// Revealed instantly (reduced motion or no lines): nothing to scrub
+		if (!timeline) {
+			scrubElements.delete(element);
+			unobserveElement(element);
+			return;
+		}
+	}
+	timeline.pause();
+
+	const rootTop = entry.root ? entry.root.getBoundingClientRect().top : 0;
+	const rootHeight = entry.root ? entry.root.clientHeight : window.innerHeight;
+	const top = element.getBoundingClientRect().top - rootTop;
+
+	const start =
+		(entry.options.scrubStart ?? DEFAULT_ANIMATION_VALUES.SCRUB_START) *
+		rootHeight;
+	const end =
+		(entry.options.scrubEnd ?? DEFAULT_ANIMATION_VALUES.SCRUB_END) *
+		rootHeight;
+
+	const progress =
+		start === end ? (top <= end ? 1 : 0) : (start - top) / (start - end);
+
+	timeline.progress(Math.min(Math.max(progress, 0), 1));
+};
+
+/**
+ * Applies the exit behaviour of a repeating reveal leaving the viewport
+ */
+const handleExit = (
+	timeline: gsap.core.Timeline,
+	options: AnimationOptions
+): void => {
+	switch (options.exit) {
+		case 'reverse':
+			timeline.reverse();
+			break;
+		case 'reset':
+			timeline.pause(0);
+			break;
+		default:
+			// Stay revealed; the timeline restarts on the next entry
+			break;
+	}
+};
+
+/**
+ * Runs the animation matching the element's data-reveal value
+ */
+const animateElement = (
+	element: HTMLElement,
+	options: AnimationOptions
+): void => {
+	const timeline = buildRevealTimeline(element, options);
+	attachRevealEvents(element, timeline, options);
+};
+
+/**
+ * Splits the element and registers the timeline of its reveal
+ */
+const buildRevealTimeline = (
+	element: HTMLElement,
+	options: AnimationOptions
+): gsap.core.Timeline | null => {
+	// Replace whatever is left of a previous reveal
+	killTimeline(element);
+	completedElements.delete(element);
+	elementOptions.set(element, options);
+
+	// Replaying a revealed element starts again from its original markup
+	if (revealedElements.has(element)) {
+		element.innerHTML = (element as any).originalText;
+		revealedElements.delete(element);
+	}
+
+	// Right-to-left text mirrors horizontal motion and the transform origin
+	const resolvedOptions =
+		getElementDirection(element) === 'rtl' ? mirrorOptions(options) : options;
+
+	// Users who prefer reduced motion get the element without line splitting
+	const timeline =
+		options.reducedMotion !== 'none' && prefersReducedMotion()
+			? animateReducedMotion(element, resolvedOptions)
+			: animateByType(element, resolvedOptions);
+
+	if (timeline) {
+		elementTimelines.set(element, timeline);
+
+		// Element reveals hold until their images are decoded
+		if (isElementRevealType(getRevealType(element)) && !options.scrub) {
+			waitForImages(element, timeline);
+		}
+	}
+
+	return timeline;
+};
+
+/**
+ * Holds a timeline until the images in the element are decoded, so they
+ * don't pop in half-loaded. Broken or slow images stop holding it after
+ * DECODE_TIMEOUT.
+ */
+const waitForImages = (
+	element: HTMLElement,
+	timeline: gsap.core.Timeline
+): void => {
+	const images = Array.from(element.querySelectorAll('img'));
+	if (element instanceof HTMLImageElement) {
+		images.unshift(element);
+	}
+	if (images.length === 0) return;
+
+	timeline.pause();
+
+	const decoded = Promise.all(
+		images.map((image) => image.decode().catch(() => undefined))
+	);
+	const timeout = new Promise((resolve) =>
+		window.setTimeout(resolve, DEFAULT_ANIMATION_VALUES.DECODE_TIMEOUT)
+	);
+
+	Promise.race([decoded, timeout]).then(() => {
+		// Skip reveals that were replaced or torn down in the meantime
+		if (elementTimelines.get(element) === timeline) {
+			timeline.play();
+		}
+	});
+};
+
+/**
+ * Re-lays out a revealed element after its width changed.
+ * In "restore" mode the text goes back to its original markup; in "split"
+ * mode the lines are split again at the new width and the timeline is
+ * rebuilt at the same point, so replay, reverse and scrub keep working.
+ */
+const relayoutElement = (element: HTMLElement): void => {
+	const options = elementOptions.get(element) ?? standardizeOptions(element);
+	const previous = elementTimelines.get(element);
+	const keepsTimeline = Boolean(options.repeat || options.scrub);
+
+	if (options.relayout === 'restore') {
+		// Finish any running reveal first so it doesn't keep tweening the
+		// removed nodes
+		if (keepsTimeline) {
+			killTimeline(element);
+		} else {
+			completeTimeline(element);
+		}
+		restoreOriginalText(element);
+
+		// The original markup is back; later width changes leave it alone
+		revealedElements.delete(element);
+		return;
+	}
+
+	// Kept timelines resume where they were; one-shot reveals are finished
+	const progress = keepsTimeline && previous ? previous.progress() : 1;
+	const reversed = keepsTimeline && previous ? previous.reversed() : false;
+	const playing = keepsTimeline && previous ? previous.isActive() : false;
+	if (!keepsTimeline) {
+		completeTimeline(element);
+	}
+
+	const timeline = buildRevealTimeline(element, options);
+	if (!timeline) return;
+
+	if (!keepsTimeline) {
+		// Render the finished state, running the per-line cleanup
+		timeline.progress(1);
+		killTimeline(element);
+		completedElements.add(element);
+		return;
+	}
+
+	timeline.pause().progress(progress, true).reversed(reversed);
+	if (playing) {
+		timeline.resume();
+	}
+	attachRevealEvents(element, timeline, options);
+	if (progress === 1 && !playing) {
+		completedElements.add(element);
+	}
+};
+
+/**
+ * Dispatches a bubbling reveal:* event on the element
+ */
+const dispatchRevealEvent = <T extends RevealEventDetail>(
+	element: HTMLElement,
+	type: string,
+	detail: T
+): void => {
+	element.dispatchEvent(new CustomEvent(type, { bubbles: true, detail }));
+};
+
+/**
+ * Reports the reveal lifecycle through DOM events: prepare right away,
+ * then start, line and complete as the timeline plays
+ */
+const attachRevealEvents = (
+	element: HTMLElement,
+	timeline: gsap.core.Timeline | null,
+	options: AnimationOptions
+): void => {
+	// Lines inside an element reveal belong to nested text reveals
+	const lines = isElementRevealType(getRevealType(element))
+		? []
+		: Array.from(element.querySelectorAll<HTMLElement>(SELECTORS.LINE));
+
+	dispatchRevealEvent(element, 'reveal:prepare', {
+		options,
+		lineCount: lines.length,
+		lines,
+	});
+
+	// Revealed instantly, nothing left to wait for
+	if (!timeline) {
+		dispatchRevealEvent(element, 'reveal:start', { options });
+		resolveWaiters(element);
+		dispatchRevealEvent(element, 'reveal:complete', { options });
+		return;
+	}
+
+	timeline.eventCallback('onStart', () => {
+		dispatchRevealEvent(element, 'reveal:start', { options });
+	});
+	timeline.eventCallback('onComplete', () => {
+		// One-shot reveals have nothing left to replay
+		if (!options.repeat && !options.scrub) {
+			elementTimelines.delete(element);
+		}
+		resolveWaiters(element);
+		dispatchRevealEvent(element, 'reveal:complete', { options });
+	});
+
+	// A line is done once every tween on the line or inside it has ended
+	const tweens = timeline.getChildren(false, true, false);
+	lines.forEach((line, index) => {
+		const lineEnd = tweens
+			.filter((tween) =>
+				(tween.targets() as Element[]).some(
+					(target) => target === line || line.contains(target)
+				)
+			)
+			.reduce((end, tween) => Math.max(end, tween.endTime()), 0);
+
+		timeline.call(
+			() => {
+				dispatchRevealEvent(element, 'reveal:line', {
+					options,
+					index,
+					line,
+				});
+			},
+			undefined,
+			lineEnd
+		);
+	});
+};
+
+/**
+ * Splits the element and builds the timeline for its data-reveal type
+ */
+const animateByType = (
+	element: HTMLElement,
+	options: AnimationOptions
+): gsap.core.Timeline | null => {
+	const animType = getRevealType(element);
+
+	// Element reveals animate the element as one box
+	if (isElementRevealType(animType)) {
+		return animateElementReveal(element, animType as string, options);
+	}
+
+	revealedElements.add(element);
+
+	// Detect if this element acts as a container for multiple text nodes
+	const nestedTextElements = prepareNestedTargets(element);
+
+	// Whether the element contains nested text elements to treat as a grouped container
+	const hasNestedElements = nestedTextElements.length > 0;
+
+	// Trigger appropriate animation based on data-reveal value
+	switch (animType) {
+		case 'perspective':
+			return hasNestedElements
+				? animateGroupedPerspective(element, nestedTextElements, options)
+				: animatePerspective(element, options);
+		case 'slide':
+			return hasNestedElements
+				? animateGroupedSlide(element, nestedTextElements, options)
+				: animateSlide(element, options);
+		default: {
+			const revealType = revealTypes.get(animType || '');
+			if (revealType) {
+				return animateRegisteredType(
+					element,
+					nestedTextElements,
+					revealType,
+					options
+				);
+			}
+
+			// Default to object animation for any unspecified animation type
+			return animateSlide(element, options);
+		}
 	}
+};
 
-	return result;
+/**
+ * The element's reveal type. Media can't be split into lines, so images,
+ * video, SVG and other embedded content are revealed with fade-up unless
+ * they use an element reveal type.
+ */
+const getRevealType = (element: HTMLElement): string | null => {
+	const animType = element.getAttribute('data-reveal');
+	return isElementRevealType(animType) || !element.matches(SELECTORS.MEDIA)
+		? animType
+		: 'fade-up';
 };
 
 /**
- * Handles intersection events for animated elements
+ * Whether the data-reveal value animates the element as one box
  */
-const handleIntersection = (
-	entries: IntersectionObserverEntry[],
-	observer: IntersectionObserver
+const isElementRevealType = (animType: string | null): boolean =>
+	ELEMENT_REVEAL_TYPES.includes(animType || '');
+
+/**
+ * Whether a tracked element's animation owns the markup of another
+ * [data-reveal] element inside it
+ */
+const ownsMarkupOf = (tracked: HTMLElement, element: HTMLElement): boolean =>
+	tracked !== element &&
+	tracked.contains(element) &&
+	!isElementRevealType(getRevealType(tracked));
+
+/**
+ * The outermost [data-reveal] text ancestor, whose animation owns the
+ * element's markup
+ */
+const getMarkupOwner = (element: HTMLElement): HTMLElement | null => {
+	let owner: HTMLElement | null = null;
+	for (let node = element.parentElement; node; node = node.parentElement) {
+		if (
+			node.hasAttribute('data-reveal') &&
+			!isElementRevealType(getRevealType(node))
+		) {
+			owner = node;
+		}
+	}
+	return owner;
+};
+
+/**
+ * Whether the data-reveal value is a line-based text animation
+ */
+const isTextRevealType = (animType: string | null): boolean => {
+	if (!animType) return false;
+	return BUILT_IN_REVEAL_TYPES.includes(animType) || revealTypes.has(animType);
+};
+
+/**
+ * Registers a custom data-reveal type. The handler takes care of line
+ * splitting, screen reader text, resize restore and option parsing; the
+ * definition only adds tweens to the timeline.
+ */
+const registerRevealType = (
+	name: string,
+	definition: RevealTypeDefinition
 ): void => {
-	entries.forEach((entry) => {
-		if (entry.isIntersecting) {
-			const element = entry.target as HTMLElement;
-			const animType = element.getAttribute('data-reveal');
+	if (BUILT_IN_REVEAL_TYPES.includes(name) || isElementRevealType(name)) {
+		warn(`"${name}" is a built-in reveal type and can't be replaced`);
+		return;
+	}
 
-			// Stop observing once animation is triggered
-			observer.unobserve(element);
+	revealTypes.set(name, definition);
+};
+
+/**
+ * Animate an element (or the nested text elements of a container) with a
+ * registered custom reveal type
+ */
+const animateRegisteredType = (
+	element: HTMLElement,
+	nestedTextElements: HTMLElement[],
+	revealType: RevealTypeDefinition,
+	options: AnimationOptions
+): gsap.core.Timeline | null => {
+	// Reset opacity
+	element.style.opacity = '1';
 
-			// Get animation options
-			const options = standardizeOptions(element);
+	const isGroup = nestedTextElements.length > 0;
+	const targets = isGroup ? nestedTextElements : [element];
 
-			// Detect if this element acts as a container for multiple text nodes
-			const nestedTextElements = Array.from(
-				element.querySelectorAll<HTMLElement>(SELECTORS.NESTED_TEXT_ELEMENTS)
-			);
+	// Grouped containers get the sr-only text once, on the container
+	if (isGroup) {
+		insertSrOnlyText(element);
+	}
+
+	const lineElements: HTMLElement[] = [];
+
+	targets.forEach((target) => {
+		target.style.opacity = '1';
+
+		// Split text into lines
+		const lines = splitTextIntoLines(target);
+
+		// Create the container hidden from assistive tech
+		const container = document.createElement('div');
+		container.setAttribute('aria-hidden', 'true');
+		container.innerHTML = generateLinesHTML(
+			lines,
+			!(options.fade || options.blur),
+			false,
+			options,
+			getElementDirection(target)
+		);
+
+		// Custom types start from the untransformed line; their tweens set the hidden state
+		container
+			.querySelectorAll<HTMLElement>(':scope > div > span')
+			.forEach((span) => {
+				span.style.transform = 'none';
+			});
+
+		revealType.prepare?.(container, options);
+
+		// Clear current content then insert sr-only span followed by container
+		target.innerHTML = '';
+		if (!isGroup) {
+			insertSrOnlyText(target);
+		}
+		target.appendChild(container);
+
+		lineElements.push(
+			...Array.from(container.querySelectorAll<HTMLElement>(':scope > div'))
+		);
+	});
+
+	const total = lineElements.length;
+	if (total === 0) return null; // Nothing to animate
+
+	// Create GSAP timeline
+	const timeline = gsap.timeline({
+		delay: options.delay || 0,
+	});
+
+	const lines = lineElements.map((line, index): RevealLineContext => {
+		const span = line.querySelector<HTMLElement>(':scope > span') || line;
+		return {
+			line,
+			span,
+			index,
+			total,
+			timeline,
+			position: index * (options.stagger || DEFAULT_ANIMATION_VALUES.STAGGER),
+			options,
+			clean: (node) => {
+				applyCleanStyles(node, node === span, options);
+			},
+		};
+	});
+
+	if (isGroup && revealType.animateGroup) {
+		revealType.animateGroup({ element, lines, timeline, options });
+	} else {
+		lines.forEach((line) => revealType.animateLine(line));
+	}
+
+	return timeline;
+};
+
+// Inline styles an element reveal animates, cleared once it is done
+const ELEMENT_REVEAL_PROPS =
+	'transform,transformOrigin,clipPath,filter,willChange';
+
+/**
+ * Starting state of an element reveal for its type and direction
+ */
+const getElementFromVars = (
+	animType: string,
+	options: AnimationOptions
+): gsap.TweenVars => {
+	const offset = DEFAULT_EFFECT_VALUES.OFFSET;
+
+	switch (animType) {
+		case 'scale-in':
+			return {
+				opacity: 0,
+				scale: DEFAULT_EFFECT_VALUES.SCALE,
+				transformOrigin: options.origin || '50% 50%',
+			};
+		case 'clip-up': {
+			const clipPaths: Record<RevealDirection, string> = {
+				bottom: 'inset(100% 0% 0% 0%)',
+				top: 'inset(0% 0% 100% 0%)',
+				left: 'inset(0% 100% 0% 0%)',
+				right: 'inset(0% 0% 0% 100%)',
+			};
+			return {
+				opacity: options.fade || options.blur ? 0 : 1,
+				clipPath: clipPaths[options.from || 'bottom'],
+			};
+		}
+		default:
+			switch (options.from) {
+				case 'top':
+					return { opacity: 0, y: -offset };
+				case 'left':
+					return { opacity: 0, x: -offset };
+				case 'right':
+					return { opacity: 0, x: offset };
+				default:
+					return { opacity: 0, y: offset };
+			}
+	}
+};
+
+/**
+ * Animate an element as one box (fade-up, scale-in, clip-up), for images,
+ * video, SVG and card components. Nothing is split and the markup is kept.
+ */
+const animateElementReveal = (
+	element: HTMLElement,
+	animType: string,
+	options: AnimationOptions
+): gsap.core.Timeline | null => {
+	const fromVars = getElementFromVars(animType, options);
+	const toVars: gsap.TweenVars = {
+		opacity: 1,
+		duration: options.duration || DEFAULT_ANIMATION_VALUES.DURATION,
+		ease: options.ease || DEFAULT_EASES.SPAN,
+		onComplete: () => {
+			// Repeating and scrubbed reveals keep their styles to replay
+			if (options.repeat || options.scrub) return;
+			gsap.set(element, { clearProps: ELEMENT_REVEAL_PROPS });
+			if (options.keepWillChange) {
+				element.style.willChange = 'transform';
+			}
+		},
+	};
+
+	if ('x' in fromVars || 'y' in fromVars) {
+		Object.assign(toVars, { x: 0, y: 0 });
+	}
+	if ('scale' in fromVars) toVars.scale = 1;
+	if ('clipPath' in fromVars) toVars.clipPath = 'inset(0% 0% 0% 0%)';
+
+	if (options.blur) {
+		fromVars.filter = getBlurFilter(options);
+		toVars.filter = 'blur(0px)';
+	}
+
+	element.style.willChange =
+		'clipPath' in fromVars ? 'clip-path, opacity' : 'transform, opacity';
+
+	const timeline = gsap.timeline({
+		delay: options.delay || 0,
+	});
+	timeline.fromTo(element, fromVars, toVars);
+
+	return timeline;
+};
+
+/**
+ * Reveal an element without motion: either a plain fade or instantly
+ */
+const animateReducedMotion = (
+	element: HTMLElement,
+	options: AnimationOptions
+): gsap.core.Timeline | null => {
+	if (options.reducedMotion === 'instant') {
+		element.style.opacity = '1';
+		return null;
+	}
+
+	const timeline = gsap.timeline({
+		delay: options.delay || 0,
+	});
+
+	timeline.fromTo(
+		element,
+		{ opacity: 0 },
+		{
+			opacity: 1,
+			duration: options.duration || DEFAULT_ANIMATION_VALUES.DURATION,
+			ease: 'none',
+		}
+	);
+
+	return timeline;
+};
+
+/**
+ * Get a non-negative numeric attribute value. Invalid values fall back to
+ * the default with a warning.
+ */
+const getAttributeValue = (
+	element: HTMLElement,
+	attr: string,
+	defaultValue: number
+): number => {
+	const value = element.getAttribute(attr)?.trim();
+	if (!value) return defaultValue;
+
+	const parsed = Number(value);
+	if (Number.isFinite(parsed) && parsed >= 0) return parsed;
+
+	warnAttribute(element, attr, `Invalid ${attr} "${value}", using the default`);
+	return defaultValue;
+};
+
+/**
+ * Starting rotation of perspective lines and offset of their spans.
+ * Lines hinge on the edge they come from unless an origin is set.
+ */
+const getPerspectiveFromVars = (
+	options: AnimationOptions
+): {
+	line: gsap.TweenVars & { transformOrigin: string };
+	span: gsap.TweenVars;
+} => {
+	const rotate = options.rotate ?? DEFAULT_EFFECT_VALUES.ROTATE;
+	const line = (
+		rotateX: number,
+		rotateY: number,
+		transformOrigin: string
+	): gsap.TweenVars & { transformOrigin: string } => ({
+		rotateX: `${rotateX}deg`,
+		rotateY: `${rotateY}deg`,
+		z: options.depth || DEFAULT_EFFECT_VALUES.DEPTH,
+		transformOrigin: options.origin || transformOrigin,
+	});
+
+	switch (options.from) {
+		case 'top':
+			return { line: line(rotate, 0, '50% 100%'), span: { y: '-300%' } };
+		case 'left':
+			return { line: line(0, rotate, '0% 50%'), span: { x: '-100%' } };
+		case 'right':
+			return { line: line(0, -rotate, '100% 50%'), span: { x: '100%' } };
+		default:
+			return { line: line(-rotate, 0, '50% 0'), span: { y: '300%' } };
+	}
+};
+
+/**
+ * Blur filter lines and units start from
+ */
+const getBlurFilter = (options: AnimationOptions): string =>
+	`blur(${options.blurAmount ?? DEFAULT_EFFECT_VALUES.BLUR}px)`;
+
+/**
+ * Starting offset of a slide line's span, or of a word or character unit.
+ * Vertical offsets are relative to the span; horizontal ones are measured so
+ * the span starts fully outside the clipping line, whatever the text
+ * alignment.
+ */
+const getSlideSpanFromVars = (
+	lineElement: HTMLElement,
+	span: HTMLElement,
+	from: RevealDirection = 'bottom'
+): gsap.TweenVars => {
+	if (from === 'top') return { y: '-100%' };
+	if (from === 'bottom') return { y: '100%' };
+
+	const lineRect = lineElement.getBoundingClientRect();
+	const spanRect = span.getBoundingClientRect();
+	return from === 'left'
+		? { x: lineRect.left - spanRect.right }
+		: { x: lineRect.right - spanRect.left };
+};
+
+/**
+ * Starting offset of a slide line along the direction's axis
+ */
+const getSlideLineFromVars = (
+	offset: number,
+	from: RevealDirection = 'bottom'
+): gsap.TweenVars => {
+	switch (from) {
+		case 'top':
+			return { y: `${-offset}%` };
+		case 'left':
+			return { x: `${-offset}%` };
+		case 'right':
+			return { x: `${offset}%` };
+		default:
+			return { y: `${offset}%` };
+	}
+};
+
+/**
+ * Resolved text direction of an element
+ */
+const getElementDirection = (element: HTMLElement): 'ltr' | 'rtl' =>
+	window.getComputedStyle(element).direction === 'rtl' ? 'rtl' : 'ltr';
 
-			// Whether the element contains nested text elements to treat as a grouped container
-			const hasNestedElements = nestedTextElements.length > 0;
-
-			// Trigger appropriate animation based on data-reveal value
-			switch (animType) {
-				case 'perspective':
-					if (hasNestedElements) {
-						animateGroupedPerspective(element, nestedTextElements, options);
-					} else {
-						animatePerspective(element, options);
-					}
-					break;
-				case 'slide':
-					if (hasNestedElements) {
-						animateGroupedSlide(element, nestedTextElements, options);
-					} else {
-						animateSlide(element, options);
-					}
-					break;
-				default:
-					// Default to object animation for any unspecified animation type
-					animateSlide(element, options);
-			}
-		}
-	});
+/**
+ * Direction of the first strongly directional letter, null for neutral text
+ * such as numbers and punctuation
+ */
+const getTextDirection = (text: string): 'ltr' | 'rtl' | null => {
+	for (const char of text) {
+		if (BIDI.RTL_CHARACTERS.test(char)) return 'rtl';
+		if (/\p{L}/u.test(char)) return 'ltr';
+	}
+	return null;
 };
 
 /**
- * Get numeric attribute value with fallback
+ * Swaps left and right in the direction and transform origin, so the
+ * motion follows the reading direction of right-to-left text
  */
-const getAttributeValue = (
-	element: HTMLElement,
-	attr: string,
-	defaultValue: number
-): number => {
-	const value = element.getAttribute(attr);
-	return value ? parseFloat(value) : defaultValue;
+const mirrorOptions = (options: AnimationOptions): AnimationOptions => ({
+	...options,
+	from:
+		options.from === 'left'
+			? 'right'
+			: options.from === 'right'
+			? 'left'
+			: options.from,
+	origin: options.origin && mirrorOrigin(options.origin),
+});
+
+/**
+ * Mirrors the horizontal component of a transform-origin value
+ */
+const mirrorOrigin = (origin: string): string => {
+	const parts = origin.trim().split(/\s+/);
+
+	// With a vertical keyword first, the horizontal value comes second
+	const index = parts[0] === 'top' || parts[0] === 'bottom' ? 1 : 0;
+	const value = parts[index];
+	if (value === undefined || value === 'center') return origin;
+
+	if (value === 'left') {
+		parts[index] = 'right';
+	} else if (value === 'right') {
+		parts[index] = 'left';
+	} else if (/^-?\d*\.?\d+%$/.test(value)) {
+		parts[index] = `${100 - parseFloat(value)}%`;
+	} else if (/^0$/.test(value)) {
+		parts[index] = '100%';
+	} else {
+		parts[index] = `calc(100% - ${value})`;
+	}
+	return parts.join(' ');
 };
 
 /**
- * Generate HTML for line-based animations
+ * Generate HTML for line-based animations. Every line wrapper gets the
+ * direction of the text it was split from.
  */
 const generateLinesHTML = (
 	lines: string[],
 	useOverflowHidden: boolean,
-	use3D: boolean = false
+	use3D: boolean = false,
+	options: AnimationOptions = {},
+	direction: 'ltr' | 'rtl' = 'ltr'
 ): string => {
+	// Horizontal offsets are measured once the lines are in the document
+	const spanTransform =
+		options.from === 'top'
+			? 'translateY(-100%)'
+			: options.from === 'left' || options.from === 'right'
+			? 'none'
+			: 'translateY(100%)';
+	const origin = getPerspectiveFromVars(options).line.transformOrigin;
+
 	return lines
 		.map((line) => {
 			const divStyles = use3D
-				? `display: block; transform-origin: 50% 0; transform-style: preserve-3d; overflow: ${
+				? `display: block; transform-origin: ${origin}; transform-style: preserve-3d; overflow: ${
 						!useOverflowHidden ? 'visible' : 'hidden'
 				  };`
 				: `display: block; overflow: ${
@@ -317,10 +2770,10 @@ const generateLinesHTML = (
 				  }; will-change: transform;`;
 
 			const spanStyles = use3D
-				? `display: inline-block; transform: translateY(100%); transform-origin: 50% 0; will-change: transform;`
-				: `display: inline-block; transform: translateY(100%); will-change: transform;`;
+				? `display: inline-block; transform: ${spanTransform}; transform-origin: ${origin}; will-change: transform;`
+				: `display: inline-block; transform: ${spanTransform}; will-change: transform;`;
 
-			return `<div style="${divStyles}">
+			return `<div class="reveal-line" dir="${direction}" style="${divStyles}">
 						<span style="${spanStyles}">
 							${line}
 						</span>
@@ -335,7 +2788,7 @@ const generateLinesHTML = (
 const animatePerspective = (
 	element: HTMLElement,
 	options: AnimationOptions
-): void => {
+): gsap.core.Timeline | null => {
 	// Reset opacity
 	element.style.opacity = '1';
 
@@ -344,7 +2797,8 @@ const animatePerspective = (
 
 	// Create container with perspective
 	const container = document.createElement('div');
-	container.style.perspective = '1000px';
+	container.style.perspective =
+		options.perspective || DEFAULT_EFFECT_VALUES.PERSPECTIVE;
 
 	// Mark the animated container as hidden from assistive tech
 	container.setAttribute('aria-hidden', 'true');
@@ -355,7 +2809,9 @@ const animatePerspective = (
 	const linesHTML = generateLinesHTML(
 		lines,
 		!(options.fade || options.blur),
-		true
+		true,
+		options,
+		getElementDirection(element)
 	);
 
 	container.innerHTML = linesHTML;
@@ -372,6 +2828,15 @@ const animatePerspective = (
 		delay: options.delay || 0,
 	});
 
+	// Word and character modes stagger the units inside each line instead
+	if (options.split === 'words' || options.split === 'chars') {
+		animateSplitUnits(Array.from(lineElements), timeline, options, true);
+		return timeline;
+	}
+
+	// Starting rotation and offset for the chosen direction
+	const direction = getPerspectiveFromVars(options);
+
 	// Animate each line
 	lineElements.forEach((lineElement, lineIndex) => {
 		// Get the span containing the line text
@@ -381,21 +2846,19 @@ const animatePerspective = (
 		const lineDelay =
 			lineIndex * (options.stagger || DEFAULT_ANIMATION_VALUES.STAGGER);
 
-		// Get keepWillChange flag from options
-		const keepWillChange = options.keepWillChange || false;
-
 		// Animate the entire line as a single element
 		if (options.blur) {
 			// For blur animation, only animate y position on the span
 			timeline.fromTo(
 				lineSpan,
-				{ y: '300%' },
+				{ ...direction.span },
 				{
+					x: 0,
 					y: 0,
 					duration: options.duration || DEFAULT_ANIMATION_VALUES.DURATION,
-					ease: 'quart.out',
+					ease: options.ease || DEFAULT_EASES.SPAN,
 					onComplete: () => {
-						applyCleanStyles(lineSpan as HTMLElement, true, keepWillChange);
+						applyCleanStyles(lineSpan as HTMLElement, true, options);
 					},
 				},
 				lineDelay
@@ -405,11 +2868,9 @@ const animatePerspective = (
 			timeline.fromTo(
 				lineElement,
 				{
-					rotateX: '-75deg',
-					rotateY: '0deg',
-					z: '2rem',
+					...direction.line,
 					opacity: 0,
-					filter: 'blur(25px)',
+					filter: getBlurFilter(options),
 				},
 				{
 					rotateX: '0deg',
@@ -418,9 +2879,9 @@ const animatePerspective = (
 					opacity: 1,
 					filter: 'blur(0px)',
 					duration: options.duration || DEFAULT_ANIMATION_VALUES.DURATION,
-					ease: 'quad.out',
+					ease: options.lineEase || DEFAULT_EASES.PERSPECTIVE_LINE,
 					onComplete: () => {
-						applyCleanStyles(lineElement as HTMLElement, false, keepWillChange);
+						applyCleanStyles(lineElement as HTMLElement, false, options);
 					},
 				},
 				lineDelay
@@ -428,14 +2889,15 @@ const animatePerspective = (
 		} else if (options.fade) {
 			timeline.fromTo(
 				lineSpan,
-				{ y: '300%', opacity: 0 },
+				{ ...direction.span, opacity: 0 },
 				{
+					x: 0,
 					y: 0,
 					opacity: 1,
 					duration: options.duration || DEFAULT_ANIMATION_VALUES.DURATION,
-					ease: 'quart.out',
+					ease: options.ease || DEFAULT_EASES.SPAN,
 					onComplete: () => {
-						applyCleanStyles(lineSpan as HTMLElement, true, keepWillChange);
+						applyCleanStyles(lineSpan as HTMLElement, true, options);
 					},
 				},
 				lineDelay
@@ -445,18 +2907,16 @@ const animatePerspective = (
 			timeline.fromTo(
 				lineElement,
 				{
-					rotateX: '-75deg',
-					rotateY: '0deg',
-					z: '2rem',
+					...direction.line,
 				},
 				{
 					rotateX: '0deg',
 					rotateY: '0deg',
 					z: '0rem',
 					duration: options.duration || DEFAULT_ANIMATION_VALUES.DURATION,
-					ease: 'quad.out',
+					ease: options.lineEase || DEFAULT_EASES.PERSPECTIVE_LINE,
 					onComplete: () => {
-						applyCleanStyles(lineElement as HTMLElement, false, keepWillChange);
+						applyCleanStyles(lineElement as HTMLElement, false, options);
 					},
 				},
 				lineDelay
@@ -464,13 +2924,14 @@ const animatePerspective = (
 		} else {
 			timeline.fromTo(
 				lineSpan,
-				{ y: '300%' },
+				{ ...direction.span },
 				{
+					x: 0,
 					y: 0,
 					duration: options.duration || DEFAULT_ANIMATION_VALUES.DURATION,
-					ease: 'quart.out',
+					ease: options.ease || DEFAULT_EASES.SPAN,
 					onComplete: () => {
-						applyCleanStyles(lineSpan as HTMLElement, true, keepWillChange);
+						applyCleanStyles(lineSpan as HTMLElement, true, options);
 					},
 				},
 				lineDelay
@@ -480,24 +2941,24 @@ const animatePerspective = (
 			timeline.fromTo(
 				lineElement,
 				{
-					rotateX: '-75deg',
-					rotateY: '0deg',
-					z: '2rem',
+					...direction.line,
 				},
 				{
 					rotateX: '0deg',
 					rotateY: '0deg',
 					z: '0rem',
 					duration: options.duration || DEFAULT_ANIMATION_VALUES.DURATION,
-					ease: 'quad.out',
+					ease: options.lineEase || DEFAULT_EASES.PERSPECTIVE_LINE,
 					onComplete: () => {
-						applyCleanStyles(lineElement as HTMLElement, false, keepWillChange);
+						applyCleanStyles(lineElement as HTMLElement, false, options);
 					},
 				},
 				lineDelay
 			);
 		}
 	});
+
+	return timeline;
 };
 
 /**
@@ -509,8 +2970,7 @@ const animateSingleLine = (
 	lineIndex: number,
 	totalLines: number,
 	timeline: gsap.core.Timeline,
-	options: AnimationOptions,
-	keepWillChange: boolean
+	options: AnimationOptions
 ): void => {
 	// Get the span containing the line text
 	const lineSpan = lineElement.querySelector('span');
@@ -522,24 +2982,38 @@ const animateSingleLine = (
 
 	// Calculate the duration for the span and line animations
 	const spanDuration = options.duration || DEFAULT_ANIMATION_VALUES.DURATION;
-	const lineDuration = spanDuration * 1.5; // Line animation is 1.5 times slower
-
-	// Calculate the progressive starting position - 0% for first line, 50% for last line
+	// Line animation is 1.5 times slower by default
+	const lineDuration =
+		spanDuration *
+		(options.lineDurationRatio ?? DEFAULT_ANIMATION_VALUES.LINE_DURATION_RATIO);
+
+	// Calculate the progressive starting position - 0% for first line, up to
+	// the cascade (50% by default) for the last line
+	const cascade = options.cascade ?? DEFAULT_ANIMATION_VALUES.CASCADE;
 	const progressiveOffset =
-		totalLines > 1 ? (lineIndex / (totalLines - 1)) * 50 : 0;
+		totalLines > 1 ? (lineIndex / (totalLines - 1)) * cascade : 0;
+
+	// Starting offsets of the span and the line for the chosen direction
+	const spanFrom = getSlideSpanFromVars(
+		lineElement as HTMLElement,
+		lineSpan,
+		options.from
+	);
+	const lineFrom = getSlideLineFromVars(progressiveOffset, options.from);
 
 	// Animate with blur, fade or without based on options
 	if (options.blur) {
 		// For blur animation, only animate the span's y position, but apply blur to the line element
 		timeline.fromTo(
 			lineSpan,
-			{ y: '100%' },
+			{ ...spanFrom },
 			{
+				x: 0,
 				y: 0,
 				duration: spanDuration,
-				ease: 'quart.out',
+				ease: options.ease || DEFAULT_EASES.SPAN,
 				onComplete: () => {
-					applyCleanStyles(lineSpan as HTMLElement, true, keepWillChange);
+					applyCleanStyles(lineSpan as HTMLElement, true, options);
 				},
 			},
 			lineDelay
@@ -549,18 +3023,19 @@ const animateSingleLine = (
 		timeline.fromTo(
 			lineElement,
 			{
-				y: `${progressiveOffset}%`,
+				...lineFrom,
 				opacity: 0,
-				filter: 'blur(25px)',
+				filter: getBlurFilter(options),
 			},
 			{
+				x: 0,
 				y: 0,
 				opacity: 1,
 				filter: 'blur(0px)',
 				duration: lineDuration,
-				ease: 'quart.out',
+				ease: options.lineEase || DEFAULT_EASES.SLIDE_LINE,
 				onComplete: () => {
-					applyCleanStyles(lineElement as HTMLElement, false, keepWillChange);
+					applyCleanStyles(lineElement as HTMLElement, false, options);
 				},
 			},
 			lineDelay
@@ -568,15 +3043,16 @@ const animateSingleLine = (
 	} else if (options.fade) {
 		timeline.fromTo(
 			lineSpan,
-			{ y: '100%', opacity: 0 },
+			{ ...spanFrom, opacity: 0 },
 			{
+				x: 0,
 				y: 0,
 				opacity: 1,
 				duration: spanDuration,
-				ease: 'quart.out',
+				ease: options.ease || DEFAULT_EASES.SPAN,
 				// Clean span as soon as its specific animation completes
 				onComplete: () => {
-					applyCleanStyles(lineSpan as HTMLElement, true, keepWillChange);
+					applyCleanStyles(lineSpan as HTMLElement, true, options);
 				},
 			},
 			lineDelay
@@ -585,14 +3061,15 @@ const animateSingleLine = (
 		// Animate the line element with progressive starting position
 		timeline.fromTo(
 			lineElement,
-			{ y: `${progressiveOffset}%`, opacity: 0 },
+			{ ...lineFrom, opacity: 0 },
 			{
+				x: 0,
 				y: 0,
 				opacity: 1,
 				duration: lineDuration,
-				ease: 'quart.out',
+				ease: options.lineEase || DEFAULT_EASES.SLIDE_LINE,
 				onComplete: () => {
-					applyCleanStyles(lineElement as HTMLElement, false, keepWillChange);
+					applyCleanStyles(lineElement as HTMLElement, false, options);
 				},
 			},
 			lineDelay
@@ -600,14 +3077,15 @@ const animateSingleLine = (
 	} else {
 		timeline.fromTo(
 			lineSpan,
-			{ y: '100%' },
+			{ ...spanFrom },
 			{
+				x: 0,
 				y: 0,
 				duration: spanDuration,
-				ease: 'quart.out',
+				ease: options.ease || DEFAULT_EASES.SPAN,
 				// Clean span as soon as its specific animation completes
 				onComplete: () => {
-					applyCleanStyles(lineSpan as HTMLElement, true, keepWillChange);
+					applyCleanStyles(lineSpan as HTMLElement, true, options);
 				},
 			},
 			lineDelay
@@ -616,13 +3094,14 @@ const animateSingleLine = (
 		// Animate the line element with progressive starting position
 		timeline.fromTo(
 			lineElement,
-			{ y: `${progressiveOffset}%` },
+			{ ...lineFrom },
 			{
+				x: 0,
 				y: 0,
 				duration: lineDuration,
-				ease: 'quart.out',
+				ease: options.lineEase || DEFAULT_EASES.SLIDE_LINE,
 				onComplete: () => {
-					applyCleanStyles(lineElement as HTMLElement, false, keepWillChange);
+					applyCleanStyles(lineElement as HTMLElement, false, options);
 				},
 			},
 			lineDelay
@@ -630,13 +3109,257 @@ const animateSingleLine = (
 	}
 };
 
+// Letters of scripts that break between characters instead of hyphenating
+const SCRIPTS_WITHOUT_SPACES =
+	/[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}\p{Script=Hangul}\p{Script=Thai}\p{Script=Lao}\p{Script=Khmer}\p{Script=Myanmar}]/u;
+
+// Intl.Segmenter instances by granularity and locale
+const segmenters = new Map<string, Intl.Segmenter>();
+
+/**
+ * Returns a cached Intl.Segmenter for the granularity and locale, or null
+ * where the browser doesn't support it
+ */
+const getSegmenter = (
+	granularity: 'grapheme' | 'word',
+	locale?: string
+): Intl.Segmenter | null => {
+	if (typeof Intl === 'undefined' || typeof Intl.Segmenter !== 'function') {
+		return null;
+	}
+
+	const key = `${granularity}|${locale || ''}`;
+	let segmenter = segmenters.get(key);
+	if (!segmenter) {
+		try {
+			segmenter = new Intl.Segmenter(locale, { granularity });
+		} catch {
+			// Malformed lang attribute
+			segmenter = new Intl.Segmenter(undefined, { granularity });
+		}
+		segmenters.set(key, segmenter);
+	}
+	return segmenter;
+};
+
+/**
+ * Segments text into graphemes or words. Without Intl.Segmenter, graphemes
+ * fall back to code points and words to whitespace-separated runs.
+ */
+const segmentText = (
+	text: string,
+	granularity: 'grapheme' | 'word',
+	locale?: string
+): { segment: string; index: number; isWordLike?: boolean }[] => {
+	const segmenter = getSegmenter(granularity, locale);
+	if (segmenter) return Array.from(segmenter.segment(text));
+
+	const parts =
+		granularity === 'grapheme' ? Array.from(text) : text.split(/(\s+)/);
+	let index = 0;
+	return parts
+		.map((segment) => {
+			const data = {
+				segment,
+				index,
+				isWordLike: granularity === 'word' && !/^\s*$/.test(segment),
+			};
+			index += segment.length;
+			return data;
+		})
+		.filter(({ segment }) => segment !== '');
+};
+
+/**
+ * Language of a node's text, from the closest lang attribute
+ */
+const getLanguage = (node: Node): string | undefined =>
+	node.parentElement?.closest('[lang]')?.getAttribute('lang') || undefined;
+
+/**
+ * Splits a run of text without spaces into its words, as found by
+ * Intl.Segmenter for the locale (Chinese, Japanese, Thai, ...). Punctuation
+ * stays with a word: opening marks with the next one, others with the
+ * previous one. Text that is a single word comes back whole.
+ */
+const segmentWords = (text: string, locale?: string): string[] => {
+	const words: string[] = [];
+	let opening = '';
+
+	segmentText(text, 'word', locale).forEach(({ segment, isWordLike }) => {
+		if (isWordLike) {
+			words.push(opening + segment);
+			opening = '';
+		} else if (/^[\p{Ps}\p{Pi}]+$/u.test(segment) || words.length === 0) {
+			opening += segment;
+		} else {
+			words[words.length - 1] += segment;
+		}
+	});
+
+	if (opening) {
+		if (words.length === 0) return [opening];
+		words[words.length - 1] += opening;
+	}
+	return words;
+};
+
+/**
+ * Wrap every word or grapheme of a line in its own inline-block unit.
+ * Only text nodes are touched, so inline markup inside the line is kept.
+ */
+const splitLineIntoUnits = (
+	lineSpan: HTMLElement,
+	mode: SplitMode
+): HTMLElement[] => {
+	const walker = document.createTreeWalker(lineSpan, NodeFilter.SHOW_TEXT);
+	const textNodes: Text[] = [];
+	while (walker.nextNode()) {
+		textNodes.push(walker.currentNode as Text);
+	}
+
+	const createUnit = (text: string): HTMLElement => {
+		const unit = document.createElement('span');
+		unit.className = 'reveal-unit';
+		unit.style.display = 'inline-block';
+		unit.textContent = text;
+		return unit;
+	};
+
+	// Inline-blocks are neutral to the bidi algorithm, so in lines with
+	// right-to-left text each word gets its own direction and is wrapped in
+	// marks of that direction to keep the words in their visual order
+	const bidi = BIDI.RTL_CHARACTERS.test(lineSpan.textContent || '');
+	const appendWord = (
+		frag: DocumentFragment,
+		word: HTMLElement,
+		text: string
+	): void => {
+		const direction = bidi ? getTextDirection(text) : null;
+		if (!direction) {
+			frag.appendChild(word);
+			return;
+		}
+
+		word.dir = direction;
+		frag.append(BIDI.MARKS[direction], word, BIDI.MARKS[direction]);
+	};
+
+	textNodes.forEach((textNode) => {
+		const parts = (textNode.textContent || '').split(/(\s+)/);
+		const frag = document.createDocumentFragment();
+		const locale = getLanguage(textNode);
+
+		parts.forEach((part) => {
+			if (part === '') return;
+			if (/^\s+$/.test(part)) {
+				// Preserve whitespace exactly
+				frag.appendChild(document.createTextNode(part));
+			} else if (mode === 'words') {
+				// Scripts written without spaces are split into their words
+				segmentWords(part, locale).forEach((word) => {
+					appendWord(frag, createUnit(word), word);
+				});
+			} else if (BIDI.JOINING_CHARACTERS.test(part)) {
+				// Letters of cursive scripts only join within the same box,
+				// so their words stay whole in chars mode
+				appendWord(frag, createUnit(part), part);
+			} else {
+				// Keep characters of a word together so the word can't break
+				const word = document.createElement('span');
+				word.style.display = 'inline-block';
+				word.style.whiteSpace = 'nowrap';
+				// Graphemes keep emoji sequences and combining marks together
+				segmentText(part, 'grapheme').forEach(({ segment }) => {
+					word.appendChild(createUnit(segment));
+				});
+				appendWord(frag, word, part);
+			}
+		});
+
+		textNode.parentNode?.replaceChild(frag, textNode);
+	});
+
+	return Array.from(
+		lineSpan.querySelectorAll<HTMLElement>(SELECTORS.SPLIT_UNIT)
+	);
+};
+
+/**
+ * Animate words or characters inside already split lines.
+ * The lines stay in place as masks and every unit gets the span animation,
+ * staggered across the whole element.
+ */
+const animateSplitUnits = (
+	lineElements: HTMLElement[],
+	timeline: gsap.core.Timeline,
+	options: AnimationOptions,
+	use3D: boolean
+): void => {
+	const duration = options.duration || DEFAULT_ANIMATION_VALUES.DURATION;
+	const stagger = options.stagger || DEFAULT_ANIMATION_VALUES.STAGGER;
+	let unitIndex = 0;
+
+	lineElements.forEach((lineElement) => {
+		const lineSpan = lineElement.querySelector('span');
+		if (!lineSpan) return;
+
+		// The line span no longer moves, its units do
+		lineSpan.style.transform = 'none';
+		lineSpan.style.willChange = 'auto';
+		if (use3D) {
+			lineSpan.style.transformStyle = 'preserve-3d';
+		}
+
+		// Measure every unit before the first tween renders
+		const units = splitLineIntoUnits(lineSpan, options.split || 'words');
+		const unitFromVars = units.map((unit) =>
+			getSlideSpanFromVars(lineElement, unit, options.from)
+		);
+
+		units.forEach((unit, index) => {
+			const fromVars: gsap.TweenVars = unitFromVars[index];
+			const toVars: gsap.TweenVars = {
+				x: 0,
+				y: 0,
+				duration,
+				ease: options.ease || DEFAULT_EASES.SPAN,
+				onComplete: () => {
+					applyCleanStyles(unit, true, options);
+				},
+			};
+
+			if (use3D) {
+				Object.assign(fromVars, getPerspectiveFromVars(options).line);
+				Object.assign(toVars, {
+					rotateX: '0deg',
+					rotateY: '0deg',
+					z: '0rem',
+				});
+			}
+
+			if (options.fade || options.blur) {
+				fromVars.opacity = 0;
+				toVars.opacity = 1;
+			}
+
+			if (options.blur) {
+				fromVars.filter = getBlurFilter(options);
+				toVars.filter = 'blur(0px)';
+			}
+
+			timeline.fromTo(unit, fromVars, toVars, unitIndex++ * stagger);
+		});
+	});
+};
+
 /**
  * Animate text by sliding lines
  */
 const animateSlide = (
 	element: HTMLElement,
 	options: AnimationOptions
-): void => {
+): gsap.core.Timeline | null => {
 	// Reset opacity
 	element.style.opacity = '1';
 
@@ -650,7 +3373,13 @@ const animateSlide = (
 	container.setAttribute('aria-hidden', 'true');
 
 	// Create HTML structure for each line
-	const linesHTML = generateLinesHTML(lines, !options.fade);
+	const linesHTML = generateLinesHTML(
+		lines,
+		!options.fade,
+		false,
+		options,
+		getElementDirection(element)
+	);
 
 	container.innerHTML = linesHTML;
 	// Clear current content then insert sr-only span followed by container
@@ -667,19 +3396,18 @@ const animateSlide = (
 		delay: options.delay || 0,
 	});
 
+	// Word and character modes stagger the units inside each line instead
+	if (options.split === 'words' || options.split === 'chars') {
+		animateSplitUnits(Array.from(lineElements), timeline, options, false);
+		return timeline;
+	}
+
 	// Animate each line
 	lineElements.forEach((lineElement, lineIndex) => {
-		// Use keepWillChange from options instead of checking attribute again
-		const keepWillChange = options.keepWillChange || false;
-		animateSingleLine(
-			lineElement,
-			lineIndex,
-			totalLines,
-			timeline,
-			options,
-			keepWillChange
-		);
+		animateSingleLine(lineElement, lineIndex, totalLines, timeline, options);
 	});
+
+	return timeline;
 };
 
 /**
@@ -694,14 +3422,23 @@ const splitTextIntoLines = (element: HTMLElement): string[] => {
 	if (!parentClone) return [originalHTML];
 
 	// Perform word splitting
-	const wordSpans = splitWordsInElement(elementClone);
+	const wordSpans = splitWordsInElement(
+		elementClone,
+		element.closest('[lang]')?.getAttribute('lang') || undefined
+	);
 	if (wordSpans.length === 0) {
 		parentClone.remove();
 		return [originalHTML];
 	}
 
-	// Group words into lines
-	const lineGroups = groupWordsByLine(wordSpans);
+	// Group words into lines, taking explicit line breaks into account
+	const lineGroups = groupWordsByLine(
+		Array.from(
+			elementClone.querySelectorAll<HTMLElement>(
+				`${SELECTORS.SPLIT_WORD}, br`
+			)
+		)
+	);
 
 	// Extract HTML for each line
 	const linesHTML = buildLinesHTML(lineGroups);
@@ -754,12 +3491,17 @@ const createAnalysisClone = (
 };
 
 /**
- * Splits element's content into individual word spans
+ * Splits element's content into individual word spans. Words are found with
+ * Intl.Segmenter in the language of the text, so scripts written without
+ * spaces are split too. The spans are plain inlines: they add no break
+ * opportunities, so the browser's own line breaking rules (kinsoku shori,
+ * keep-all, ...) still decide where lines end.
  */
-const splitWordsInElement = (elementClone: HTMLElement): HTMLElement[] => {
-	// Wrap every WORD in an inline-block span (.split-word)
+const splitWordsInElement = (
+	elementClone: HTMLElement,
+	locale?: string
+): HTMLElement[] => {
 	// We only process TEXT nodes, leaving any existing inline markup intact
-	let wordIndex = 0;
 	const walker = document.createTreeWalker(elementClone, NodeFilter.SHOW_TEXT);
 	const textNodes: Text[] = [];
 	while (walker.nextNode()) {
@@ -767,21 +3509,18 @@ const splitWordsInElement = (elementClone: HTMLElement): HTMLElement[] => {
 	}
 
 	textNodes.forEach((textNode) => {
-		const parts = (textNode.textContent || '').split(/(\s+)/);
 		const frag = document.createDocumentFragment();
 
-		parts.forEach((part) => {
-			if (part === '') return;
-			if (/^\s+$/.test(part)) {
+		segmentText(
+			textNode.textContent || '',
+			'word',
+			getLanguage(textNode) || locale
+		).forEach(({ segment }) => {
+			if (/^\s+$/.test(segment)) {
 				// Preserve whitespace exactly
-				frag.appendChild(document.createTextNode(part));
+				frag.appendChild(document.createTextNode(segment));
 			} else {
-				const span = document.createElement('span');
-				span.className = 'split-word';
-				span.style.display = 'inline-block';
-				span.dataset.wordIndex = String(wordIndex++);
-				span.textContent = part;
-				frag.appendChild(span);
+				frag.appendChild(createWordSpan(segment));
 			}
 		});
 
@@ -795,30 +3534,166 @@ const splitWordsInElement = (elementClone: HTMLElement): HTMLElement[] => {
 };
 
 /**
- * Groups words into lines based on their vertical position
+ * Creates a helper span measuring one word
+ */
+const createWordSpan = (text: string): HTMLElement => {
+	const span = document.createElement('span');
+	span.className = 'split-word';
+	span.textContent = text;
+	return span;
+};
+
+/**
+ * Groups words into lines based on their vertical position. Every <br>
+ * starts a new line and two in a row leave an empty one. A word the browser
+ * broke across lines (hyphenation, soft hyphens, CJK) is split at the same
+ * points, so the lines match the page exactly.
  */
-const groupWordsByLine = (wordSpans: HTMLElement[]): HTMLElement[][] => {
+const groupWordsByLine = (items: HTMLElement[]): HTMLElement[][] => {
+	// Measure everything before changing the layout by splitting words
+	const measured = items.map((item) =>
+		item.tagName === 'BR'
+			? null
+			: {
+					top: item.getBoundingClientRect().top,
+					breaks: getWordBreakOffsets(item),
+			  }
+	);
+
 	const lineGroups: HTMLElement[][] = [[]];
-	let currentLine = 0;
-	let prevTop = wordSpans[0].getBoundingClientRect().top;
-
-	wordSpans.forEach((span) => {
-		const top = span.getBoundingClientRect().top;
-		if (Math.abs(top - prevTop) > 2) {
-			currentLine++;
-			prevTop = top;
-			lineGroups[currentLine] = [];
+	let prevTop = measured.find((entry) => entry !== null)?.top ?? 0;
+	let pendingBreak = false;
+
+	const startLine = (): void => {
+		lineGroups.push([]);
+		pendingBreak = false;
+	};
+
+	items.forEach((item, index) => {
+		const entry = measured[index];
+		if (!entry) {
+			// A second <br> in a row leaves an empty line
+			if (pendingBreak) startLine();
+			pendingBreak = true;
+			return;
+		}
+
+		if (pendingBreak || Math.abs(entry.top - prevTop) > 2) {
+			startLine();
+			prevTop = entry.top;
+		}
+
+		const pieces = entry.breaks.length
+			? splitWordAtBreaks(item, entry.breaks)
+			: [item];
+		pieces.forEach((piece, pieceIndex) => {
+			if (pieceIndex > 0) startLine();
+			lineGroups[lineGroups.length - 1].push(piece);
+		});
+		if (entry.breaks.length) {
+			prevTop = entry.breaks[entry.breaks.length - 1].top;
 		}
-		lineGroups[currentLine].push(span);
 	});
 
 	return lineGroups;
 };
 
+/**
+ * Finds where the browser broke a word across lines: the text offset each
+ * new line starts at and that line's top
+ */
+const getWordBreakOffsets = (
+	span: HTMLElement
+): { offset: number; top: number }[] => {
+	const text = span.firstChild;
+	if (!(text instanceof Text) || span.getClientRects().length < 2) return [];
+
+	const breaks: { offset: number; top: number }[] = [];
+	const range = document.createRange();
+	let lineTop: number | null = null;
+
+	segmentText(text.data, 'grapheme').forEach(({ segment, index }) => {
+		range.setStart(text, index);
+		range.setEnd(text, index + segment.length);
+
+		// Invisible characters such as soft hyphens have no box
+		const rect = range.getClientRects()[0];
+		if (!rect || (rect.width === 0 && rect.height === 0)) return;
+
+		if (lineTop === null) {
+			lineTop = rect.top;
+		} else if (Math.abs(rect.top - lineTop) > 2) {
+			lineTop = rect.top;
+			breaks.push({ offset: index, top: rect.top });
+		}
+	});
+
+	return breaks;
+};
+
+/**
+ * Splits a word span at the given break offsets, ending every piece but the
+ * last with the hyphen the browser draws there, if any
+ */
+const splitWordAtBreaks = (
+	span: HTMLElement,
+	breaks: { offset: number }[]
+): HTMLElement[] => {
+	const text = span.textContent || '';
+	const style = window.getComputedStyle(span);
+	const offsets = [0, ...breaks.map(({ offset }) => offset), text.length];
+
+	const pieces = offsets.slice(0, -1).map((start, index) => {
+		let piece = text.slice(start, offsets[index + 1]);
+		if (index < breaks.length) {
+			piece = addBreakHyphen(piece, text.slice(offsets[index + 1]), style);
+		}
+		return createWordSpan(piece);
+	});
+
+	span.replaceWith(...pieces);
+	return pieces;
+};
+
+/**
+ * Adds the hyphen glyph to text that ends where the browser broke a word:
+ * after a soft hyphen, or between letters of a hyphenated word
+ */
+const addBreakHyphen = (
+	before: string,
+	after: string,
+	style: CSSStyleDeclaration
+): string => {
+	const hyphens =
+		style.hyphens || style.getPropertyValue('-webkit-hyphens') || 'manual';
+	if (hyphens === 'none') return before;
+
+	const softHyphen = before.endsWith('\u00AD');
+	const hyphenated =
+		hyphens === 'auto' &&
+		/\p{L}$/u.test(before) &&
+		/^\p{L}/u.test(after) &&
+		!SCRIPTS_WITHOUT_SPACES.test(before.slice(-1));
+	if (!softHyphen && !hyphenated) return before;
+
+	const character =
+		style.getPropertyValue('hyphenate-character') ||
+		style.getPropertyValue('-webkit-hyphenate-character');
+	const hyphen =
+		character && character !== 'auto'
+			? character.replace(/^(["'])(.*)\1$/, '$2')
+			: '\u2010';
+
+	return (softHyphen ? before.slice(0, -1) : before) + hyphen;
+};
+
 /**
  * Builds HTML for each line from grouped word spans
  */
 const buildLinesHTML = (lineGroups: HTMLElement[][]): string[] => {
+	// Embeddings and isolates left open by a line continue on the next one
+	let openControls: string[] = [];
+
 	// Build HTML for each visual line, removing helper spans but preserving
 	// original inline markup
 	return lineGroups.map((spansInLine) => {
@@ -839,10 +3714,44 @@ const buildLinesHTML = (lineGroups: HTMLElement[][]): string[] => {
 				helper.replaceWith(...Array.from(helper.childNodes));
 			});
 
-		return container.innerHTML.trim();
+		const carried = openControls.join('');
+		openControls = getOpenBidiControls(
+			container.textContent || '',
+			openControls
+		);
+
+		return carried + container.innerHTML.trim();
 	});
 };
 
+/**
+ * Follows the explicit bidi embeddings and isolates through a line of text
+ * and returns the ones still open at its end, outermost first
+ */
+const getOpenBidiControls = (text: string, open: string[]): string[] => {
+	const stack = [...open];
+
+	for (const char of text) {
+		if (char in BIDI.OPENERS) {
+			stack.push(char);
+		} else if (char === '\u2069') {
+			// PDI closes the innermost isolate and anything opened inside it
+			const isolate = stack
+				.map((opener) => BIDI.OPENERS[opener])
+				.lastIndexOf('\u2069');
+			if (isolate !== -1) stack.length = isolate;
+		} else if (
+			char === '\u202C' &&
+			stack.length > 0 &&
+			BIDI.OPENERS[stack[stack.length - 1]] === '\u202C'
+		) {
+			stack.pop();
+		}
+	}
+
+	return stack;
+};
+
 /**
  * Animate grouped text elements by lines as a single sequence.
  * This allows applying data-reveal="slide" to a container element (e.g., a div) and
@@ -853,7 +3762,7 @@ const animateGroupedSlide = (
 	container: HTMLElement,
 	nestedTextElements: HTMLElement[],
 	options: AnimationOptions
-): void => {
+): gsap.core.Timeline | null => {
 	// Ensure container itself is visible before we start manipulating children
 	container.style.opacity = '1';
 
@@ -876,7 +3785,13 @@ const animateGroupedSlide = (
 		// Build HTML for this nested element similar to animateSlide
 		const nestedContainer = document.createElement('div');
 		nestedContainer.setAttribute('aria-hidden', 'true');
-		nestedContainer.innerHTML = generateLinesHTML(lines, !options.fade);
+		nestedContainer.innerHTML = generateLinesHTML(
+			lines,
+			!options.fade,
+			false,
+			options,
+			getElementDirection(nestedEl)
+		);
 
 		// Replace nested element's contents with the generated structure
 		nestedEl.innerHTML = '';
@@ -890,25 +3805,25 @@ const animateGroupedSlide = (
 
 	const totalLines = aggregatedLineContainers.length;
 
-	if (totalLines === 0) return; // Nothing to animate
+	if (totalLines === 0) return null; // Nothing to animate
 
 	// Create a single GSAP timeline for the entire group
 	const timeline = gsap.timeline({
 		delay: options.delay || 0,
 	});
 
+	// Word and character modes stagger the units inside each line instead
+	if (options.split === 'words' || options.split === 'chars') {
+		animateSplitUnits(aggregatedLineContainers, timeline, options, false);
+		return timeline;
+	}
+
 	// Iterate over all collected line containers sequentially
 	aggregatedLineContainers.forEach((lineElement, globalIndex) => {
-		const keepWillChange = options.keepWillChange || false;
-		animateSingleLine(
-			lineElement,
-			globalIndex,
-			totalLines,
-			timeline,
-			options,
-			keepWillChange
-		);
+		animateSingleLine(lineElement, globalIndex, totalLines, timeline, options);
 	});
+
+	return timeline;
 };
 
 /**
@@ -921,7 +3836,7 @@ const animateGroupedPerspective = (
 	container: HTMLElement,
 	nestedTextElements: HTMLElement[],
 	options: AnimationOptions
-): void => {
+): gsap.core.Timeline | null => {
 	// Ensure container itself is visible before we start manipulating children
 	container.style.opacity = '1';
 
@@ -943,14 +3858,17 @@ const animateGroupedPerspective = (
 
 		// Create container with perspective
 		const nestedContainer = document.createElement('div');
-		nestedContainer.style.perspective = '1000px';
+		nestedContainer.style.perspective =
+			options.perspective || DEFAULT_EFFECT_VALUES.PERSPECTIVE;
 		nestedContainer.setAttribute('aria-hidden', 'true');
 
 		// Create HTML structure with 3D effect
 		nestedContainer.innerHTML = generateLinesHTML(
 			lines,
 			!(options.fade || options.blur),
-			true
+			true,
+			options,
+			getElementDirection(nestedEl)
 		);
 
 		// Replace nested element's contents with the 3D structure
@@ -965,13 +3883,22 @@ const animateGroupedPerspective = (
 
 	const totalLines = aggregatedLineContainers.length;
 
-	if (totalLines === 0) return; // Nothing to animate
+	if (totalLines === 0) return null; // Nothing to animate
 
 	// Create a single GSAP timeline for the entire group
 	const timeline = gsap.timeline({
 		delay: options.delay || 0,
 	});
 
+	// Word and character modes stagger the units inside each line instead
+	if (options.split === 'words' || options.split === 'chars') {
+		animateSplitUnits(aggregatedLineContainers, timeline, options, true);
+		return timeline;
+	}
+
+	// Starting rotation and offset for the chosen direction
+	const direction = getPerspectiveFromVars(options);
+
 	// Iterate over all collected line containers sequentially
 	aggregatedLineContainers.forEach((lineElement, globalIndex) => {
 		// Get the span containing the line text
@@ -987,17 +3914,14 @@ const animateGroupedPerspective = (
 			// For blur animation, only animate y position on the span
 			timeline.fromTo(
 				lineSpan,
-				{ y: '300%' },
+				{ ...direction.span },
 				{
+					x: 0,
 					y: 0,
 					duration: options.duration || DEFAULT_ANIMATION_VALUES.DURATION,
-					ease: 'quart.out',
+					ease: options.ease || DEFAULT_EASES.SPAN,
 					onComplete: () => {
-						applyCleanStyles(
-							lineSpan as HTMLElement,
-							true,
-							options.keepWillChange || false
-						);
+						applyCleanStyles(lineSpan as HTMLElement, true, options);
 					},
 				},
 				lineDelay
@@ -1007,11 +3931,9 @@ const animateGroupedPerspective = (
 			timeline.fromTo(
 				lineElement,
 				{
-					rotateX: '-75deg',
-					rotateY: '0deg',
-					z: '2rem',
+					...direction.line,
 					opacity: 0,
-					filter: 'blur(25px)',
+					filter: getBlurFilter(options),
 				},
 				{
 					rotateX: '0deg',
@@ -1020,13 +3942,9 @@ const animateGroupedPerspective = (
 					opacity: 1,
 					filter: 'blur(0px)',
 					duration: options.duration || DEFAULT_ANIMATION_VALUES.DURATION,
-					ease: 'quad.out',
+					ease: options.lineEase || DEFAULT_EASES.PERSPECTIVE_LINE,
 					onComplete: () => {
-						applyCleanStyles(
-							lineElement as HTMLElement,
-							false,
-							options.keepWillChange || false
-						);
+						applyCleanStyles(lineElement as HTMLElement, false, options);
 					},
 				},
 				lineDelay
@@ -1034,18 +3952,15 @@ const animateGroupedPerspective = (
 		} else if (options.fade) {
 			timeline.fromTo(
 				lineSpan,
-				{ y: '300%', opacity: 0 },
+				{ ...direction.span, opacity: 0 },
 				{
+					x: 0,
 					y: 0,
 					opacity: 1,
 					duration: options.duration || DEFAULT_ANIMATION_VALUES.DURATION,
-					ease: 'quart.out',
+					ease: options.ease || DEFAULT_EASES.SPAN,
 					onComplete: () => {
-						applyCleanStyles(
-							lineSpan as HTMLElement,
-							true,
-							options.keepWillChange || false
-						);
+						applyCleanStyles(lineSpan as HTMLElement, true, options);
 					},
 				},
 				lineDelay
@@ -1055,22 +3970,16 @@ const animateGroupedPerspective = (
 			timeline.fromTo(
 				lineElement,
 				{
-					rotateX: '-75deg',
-					rotateY: '0deg',
-					z: '2rem',
+					...direction.line,
 				},
 				{
 					rotateX: '0deg',
 					rotateY: '0deg',
 					z: '0rem',
 					duration: options.duration || DEFAULT_ANIMATION_VALUES.DURATION,
-					ease: 'quad.out',
+					ease: options.lineEase || DEFAULT_EASES.PERSPECTIVE_LINE,
 					onComplete: () => {
-						applyCleanStyles(
-							lineElement as HTMLElement,
-							false,
-							options.keepWillChange || false
-						);
+						applyCleanStyles(lineElement as HTMLElement, false, options);
 					},
 				},
 				lineDelay
@@ -1078,17 +3987,14 @@ const animateGroupedPerspective = (
 		} else {
 			timeline.fromTo(
 				lineSpan,
-				{ y: '300%' },
+				{ ...direction.span },
 				{
+					x: 0,
 					y: 0,
 					duration: options.duration || DEFAULT_ANIMATION_VALUES.DURATION,
-					ease: 'quart.out',
+					ease: options.ease || DEFAULT_EASES.SPAN,
 					onComplete: () => {
-						applyCleanStyles(
-							lineSpan as HTMLElement,
-							true,
-							options.keepWillChange || false
-						);
+						applyCleanStyles(lineSpan as HTMLElement, true, options);
 					},
 				},
 				lineDelay
@@ -1098,28 +4004,24 @@ const animateGroupedPerspective = (
 			timeline.fromTo(
 				lineElement,
 				{
-					rotateX: '-75deg',
-					rotateY: '0deg',
-					z: '2rem',
+					...direction.line,
 				},
 				{
 					rotateX: '0deg',
 					rotateY: '0deg',
 					z: '0rem',
 					duration: options.duration || DEFAULT_ANIMATION_VALUES.DURATION,
-					ease: 'quad.out',
+					ease: options.lineEase || DEFAULT_EASES.PERSPECTIVE_LINE,
 					onComplete: () => {
-						applyCleanStyles(
-							lineElement as HTMLElement,
-							false,
-							options.keepWillChange || false
-						);
+						applyCleanStyles(lineElement as HTMLElement, false, options);
 					},
 				},
 				lineDelay
 			);
 		}
 	});
+
+	return timeline;
 };
 
 function insertSrOnlyText(element: HTMLElement): void {
@@ -1139,22 +4041,137 @@ function insertSrOnlyText(element: HTMLElement): void {
 	element.prepend(srSpan);
 }
 
-// Add standard DOM content loaded event to ensure initialization
-document.addEventListener('astro:page-load', () => {
-	initTextAnimations();
-});
+/**
+ * Restores every tracked element to its original markup
+ */
+const restoreAll = (): void => {
+	animatedElements.forEach((element) => {
+		restoreOriginalText(element);
+	});
+};
 
-// Clean up event listeners when the page is unloaded
-document.addEventListener('astro:before-preparation', () => {
-	// Clear any pending resize timeouts
-	if (resizeTimeout !== null) {
-		window.clearTimeout(resizeTimeout);
-		resizeTimeout = null;
+/**
+ * Hooks handed to a lifecycle adapter
+ */
+export interface RevealLifecycle {
+	init: () => void;
+	teardown: () => void;
+	restore: () => void;
+}
+
+/**
+ * Wires the handler into a page lifecycle and returns a function that
+ * removes whatever listeners the adapter added
+ */
+export type RevealLifecycleAdapter = (lifecycle: RevealLifecycle) => () => void;
+
+/**
+ * Astro view transitions: the DOM is swapped on navigation, so we only
+ * need to release the old page and initialize the new one
+ */
+const astroLifecycle: RevealLifecycleAdapter = ({ init, teardown }) => {
+	document.addEventListener('astro:page-load', init);
+	document.addEventListener('astro:before-preparation', teardown);
+
+	return () => {
+		document.removeEventListener('astro:page-load', init);
+		document.removeEventListener('astro:before-preparation', teardown);
+	};
+};
+
+/**
+ * Plain pages without view transitions. The document survives history
+ * navigation, so elements are restored before being observed again.
+ */
+const domLifecycle: RevealLifecycleAdapter = ({ init, teardown, restore }) => {
+	const handlePopState = (): void => {
+		// Reset the state of animated elements
+		restore();
+		teardown();
+
+		// Reinitialize animations
+		init();
+	};
+
+	if (document.readyState === 'loading') {
+		document.addEventListener('DOMContentLoaded', init, { once: true });
+	} else {
+		init();
 	}
+	window.addEventListener('popstate', handlePopState);
 
-	// Remove resize event listener
-	window.removeEventListener('resize', handleWindowResize);
+	return () => {
+		document.removeEventListener('DOMContentLoaded', init);
+		window.removeEventListener('popstate', handlePopState);
+	};
+};
 
-	// Clear animated elements array to prevent memory leaks
-	animatedElements.length = 0;
-});
+/**
+ * Generic adapter for routers such as Turbo or Swup: connect manual.adapter,
+ * then call manual.init() / manual.teardown() from the router's own events
+ */
+const createManualLifecycle = (): {
+	adapter: RevealLifecycleAdapter;
+	init: () => void;
+	teardown: () => void;
+	restore: () => void;
+} => {
+	let lifecycle: RevealLifecycle | null = null;
+
+	return {
+		adapter: (connected) => {
+			lifecycle = connected;
+			return () => {
+				lifecycle = null;
+			};
+		},
+		init: () => lifecycle?.init(),
+		teardown: () => lifecycle?.teardown(),
+		restore: () => lifecycle?.restore(),
+	};
+};
+
+// Disconnect function of the currently connected adapter
+let disconnectLifecycle: (() => void) | null = null;
+
+/**
+ * Connects the handler to a page lifecycle. Only one adapter is active at a
+ * time; connecting another one disconnects the previous adapter first.
+ */
+const connectLifecycle = (adapter: RevealLifecycleAdapter): (() => void) => {
+	disconnectLifecycle?.();
+
+	const disconnect = adapter({
+		init: initTextAnimations,
+		teardown: destroy,
+		restore: restoreAll,
+	});
+
+	const disconnectAdapter = (): void => {
+		disconnect();
+		if (disconnectLifecycle === disconnectAdapter) {
+			disconnectLifecycle = null;
+		}
+	};
+	disconnectLifecycle = disconnectAdapter;
+
+	return disconnectAdapter;
+};
+
+export {
+	initTextAnimations,
+	reveal,
+	reset,
+	refresh,
+	revealAll,
+	whenRevealed,
+	destroy,
+	registerRevealType,
+	setReducedMotionDefault,
+	configureReveal,
+	watchMutations,
+	connectLifecycle,
+	astroLifecycle,
+	domLifecycle,
+	createManualLifecycle,
+};